@@ -0,0 +1,195 @@
+// Synthesizes the one-shot samples of the sampled drum kits into
+// public/samples/drums, using the file names listed in src/lib/drum-kits.ts.
+// Run with `node scripts/generate-drum-samples.mjs`; the output is the same
+// every time, so the committed files only change when a sound here does.
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const SAMPLE_RATE = 44100;
+const OUT_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'public', 'samples', 'drums');
+
+// Peak level every sample is normalized to
+const PEAK = 0.89;
+
+// Seconds faded out at the end, so a cut-off tail doesn't click
+const FADE_OUT = 0.01;
+
+// Frequencies of the six square oscillators behind the 808's cymbal and hi-hats
+const METAL_FREQUENCIES = [205.3, 304.4, 369.6, 522.7, 540, 800];
+
+// Seeded, so the noise is the same on every run
+const createNoise = seed => {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 2 ** 31 - 1;
+  };
+};
+
+// An RBJ cookbook biquad filter, processing one sample at a time
+const createFilter = (type, frequency, q = Math.SQRT1_2) => {
+  const w = (2 * Math.PI * frequency) / SAMPLE_RATE;
+  const alpha = Math.sin(w) / (2 * q);
+  const cos = Math.cos(w);
+  const coefficients = {
+    lowpass: [(1 - cos) / 2, 1 - cos, (1 - cos) / 2],
+    highpass: [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2],
+    bandpass: [alpha, 0, -alpha],
+  }[type];
+  const [b0, b1, b2] = coefficients.map(b => b / (1 + alpha));
+  const a1 = (-2 * cos) / (1 + alpha);
+  const a2 = (1 - alpha) / (1 + alpha);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  return x => {
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    return y;
+  };
+};
+
+const render = (seconds, sample) => {
+  return Float32Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) => sample(i / SAMPLE_RATE));
+};
+
+const decay = (t, seconds) => Math.exp(-t / seconds);
+
+// A sine that glides from `start` down to `end` Hz, as in kicks and toms
+const createSweep = ({ start, end, sweep }) => {
+  let phase = 0;
+  return t => {
+    phase += (2 * Math.PI * (end + (start - end) * decay(t, sweep))) / SAMPLE_RATE;
+    return Math.sin(phase);
+  };
+};
+
+const kick = ({ start, end, sweep, length, click = 0, drive = 1, seed = 1 }) => {
+  const body = createSweep({ start, end, sweep });
+  const noise = createNoise(seed);
+  const clickFilter = createFilter('highpass', 1500);
+  return render(length * 1.5, t => {
+    const hit = body(t) * decay(t, length / 3) + clickFilter(noise()) * click * decay(t, 0.004);
+    return Math.tanh(hit * drive);
+  });
+};
+
+const tom = ({ start, end, length, noise: noiseLevel = 0.1, seed = 2 }) => {
+  const body = createSweep({ start, end, sweep: 0.05 });
+  const noise = createNoise(seed);
+  const filter = createFilter('lowpass', start * 4);
+  return render(length * 1.5, t => {
+    return body(t) * decay(t, length / 3) + filter(noise()) * noiseLevel * decay(t, 0.03);
+  });
+};
+
+const snare = ({ tones, toneDecay, noiseDecay, noiseLevel, band, length, seed = 3 }) => {
+  const noise = createNoise(seed);
+  const highpass = createFilter('highpass', band / 3);
+  const bandpass = createFilter('bandpass', band, 0.7);
+  return render(length, t => {
+    const tone = tones.reduce((sum, f) => sum + Math.sin(2 * Math.PI * f * t), 0) / tones.length;
+    const rattle = bandpass(highpass(noise()));
+    return tone * decay(t, toneDecay) + rattle * noiseLevel * decay(t, noiseDecay);
+  });
+};
+
+// Square waves at inharmonic ratios, filtered up high, for hi-hats and cymbals
+const metal = ({ decaySeconds, length, band = 8000, pitch = 1, noiseLevel = 0, attack = 0, seed = 4 }) => {
+  const noise = createNoise(seed);
+  const bandpass = createFilter('bandpass', band, 0.8);
+  const highpass = createFilter('highpass', band * 0.8);
+  return render(length, t => {
+    const squares = METAL_FREQUENCIES.reduce((sum, f) => sum + Math.sign(Math.sin(2 * Math.PI * f * pitch * t)), 0) / 6;
+    const swell = attack ? Math.min(1, t / attack) : 1;
+    return highpass(bandpass(squares + noise() * noiseLevel)) * decay(t, decaySeconds) * swell;
+  });
+};
+
+// A ride is a wash plus the ping of a stick on the bow
+const ride = ({ length, pitch, band, ping }) => {
+  const wash = metal({ decaySeconds: length / 3, length, band, pitch, noiseLevel: 0.6, seed: 5 });
+  return wash.map((x, i) => x + ping * Math.sin(2 * Math.PI * 620 * pitch * (i / SAMPLE_RATE)) * decay(i / SAMPLE_RATE, 0.25));
+};
+
+// Old samplers: fewer bits, a lower sample rate, a dull top end and some grit
+const crush = (samples, { bits = 8, hold = 4, cutoff = 5000, drive = 1.6 } = {}) => {
+  const levels = 2 ** (bits - 1);
+  const filter = createFilter('lowpass', cutoff);
+  let held = 0;
+  return samples.map((x, i) => {
+    if (i % hold === 0) held = Math.round(x * levels) / levels;
+    return filter(Math.tanh(held * drive));
+  });
+};
+
+const finish = samples => {
+  const peak = samples.reduce((max, x) => Math.max(max, Math.abs(x)), 0) || 1;
+  const fadeLength = Math.round(FADE_OUT * SAMPLE_RATE);
+  return samples.map((x, i) => (x / peak) * PEAK * Math.min(1, (samples.length - 1 - i) / fadeLength));
+};
+
+// 16-bit mono PCM
+const encodeWav = samples => {
+  const buffer = Buffer.alloc(44 + samples.length * 2);
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + samples.length * 2, 4);
+  buffer.write('WAVEfmt ', 8);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(SAMPLE_RATE, 24);
+  buffer.writeUInt32LE(SAMPLE_RATE * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(samples.length * 2, 40);
+  samples.forEach((x, i) => buffer.writeInt16LE(Math.round(Math.max(-1, Math.min(1, x)) * 32767), 44 + i * 2));
+  return buffer;
+};
+
+const acousticSounds = () => ({
+  'kick.wav': kick({ start: 110, end: 52, sweep: 0.025, length: 0.45, click: 0.5, drive: 1.4 }),
+  'snare.wav': snare({ tones: [185, 330], toneDecay: 0.04, noiseDecay: 0.09, noiseLevel: 1.6, band: 3500, length: 0.4 }),
+  'hihat-closed.wav': metal({ decaySeconds: 0.025, length: 0.2, band: 9000, pitch: 1.6, noiseLevel: 1.2 }),
+  'crash.wav': metal({ decaySeconds: 0.7, length: 2.5, band: 6000, pitch: 1.3, noiseLevel: 1.5, attack: 0.005 }),
+  'ride.wav': ride({ length: 2, pitch: 1.4, band: 5000, ping: 0.08 }),
+  'tom-floor.wav': tom({ start: 105, end: 82, length: 0.6 }),
+});
+
+const KITS = {
+  acoustic: acousticSounds(),
+  '808': {
+    'kick.wav': kick({ start: 95, end: 48, sweep: 0.04, length: 1, drive: 1.2 }),
+    'snare.wav': snare({ tones: [238, 476], toneDecay: 0.06, noiseDecay: 0.06, noiseLevel: 1.2, band: 5000, length: 0.3 }),
+    'hihat-closed.wav': metal({ decaySeconds: 0.015, length: 0.12 }),
+    'hihat-open.wav': metal({ decaySeconds: 0.15, length: 0.7 }),
+    'cymbal.wav': metal({ decaySeconds: 0.5, length: 2, band: 6500, noiseLevel: 0.3 }),
+    'tom-low.wav': tom({ start: 100, end: 85, length: 0.45, noise: 0 }),
+  },
+  '909': {
+    'kick.wav': kick({ start: 260, end: 52, sweep: 0.018, length: 0.5, click: 1, drive: 2.2 }),
+    'snare.wav': snare({ tones: [190, 345], toneDecay: 0.03, noiseDecay: 0.11, noiseLevel: 2.2, band: 6000, length: 0.35 }),
+    'hihat-closed.wav': metal({ decaySeconds: 0.02, length: 0.15, band: 10000, pitch: 1.8, noiseLevel: 1.5 }),
+    'crash.wav': metal({ decaySeconds: 0.6, length: 2.2, band: 7500, pitch: 1.5, noiseLevel: 2 }),
+    'ride.wav': ride({ length: 1.8, pitch: 1.7, band: 6500, ping: 0.05 }),
+    'tom-low.wav': tom({ start: 140, end: 95, length: 0.4, noise: 0.3 }),
+  },
+  lofi: Object.fromEntries(Object.entries({
+    'kick.wav': kick({ start: 100, end: 50, sweep: 0.03, length: 0.4, click: 0.3, drive: 1.8 }),
+    'snare.wav': snare({ tones: [200, 300], toneDecay: 0.05, noiseDecay: 0.08, noiseLevel: 1.4, band: 2500, length: 0.35 }),
+    'hihat.wav': metal({ decaySeconds: 0.03, length: 0.2, band: 7000, pitch: 1.4, noiseLevel: 1 }),
+    'crash.wav': metal({ decaySeconds: 0.5, length: 1.8, band: 5500, pitch: 1.2, noiseLevel: 1.5 }),
+    'ride.wav': ride({ length: 1.5, pitch: 1.3, band: 4500, ping: 0.1 }),
+    'tom.wav': tom({ start: 120, end: 90, length: 0.45 }),
+  }).map(([file, samples]) => [file, crush(samples)])),
+};
+
+Object.entries(KITS).forEach(([kit, sounds]) => {
+  mkdirSync(join(OUT_DIR, kit), { recursive: true });
+  Object.entries(sounds).forEach(([file, samples]) => {
+    writeFileSync(join(OUT_DIR, kit, file), encodeWav(finish(samples)));
+  });
+});
@@ -0,0 +1,119 @@
+import React, { useCallback } from 'react';
+import { Link, Outlet, useLocation, useMatch, useNavigate } from 'react-router-dom';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar';
+import { useProjectLibrary } from '@/hooks/use-project-library';
+import { FolderOpen, Music, Piano as PianoIcon, Settings } from 'lucide-react';
+import SoundSpace, { type StudioView } from './SoundSpace';
+
+// Shared with the routed pages through the outlet
+export interface AppShellContext {
+  library: ReturnType<typeof useProjectLibrary>;
+}
+
+// Navigation state that asks the editor to start playing once the project is open
+export interface AutoplayState {
+  autoplay: true;
+}
+
+const NAV_ITEMS = [
+  { to: '/projects', label: 'Projects', icon: FolderOpen },
+  { to: '/play', label: 'Play', icon: PianoIcon },
+  { to: '/settings', label: 'Settings', icon: Settings },
+];
+
+/**
+ * The sidebar layout every page sits in. The studio lives here rather than in
+ * a route, so instruments, MIDI devices and anything playing carry on as the
+ * user moves between pages.
+ */
+export const AppShell: React.FC = () => {
+  const library = useProjectLibrary();
+  const { pathname, state } = useLocation();
+  const navigate = useNavigate();
+  const editorMatch = useMatch('/projects/:id');
+  const playMatch = useMatch('/play');
+  const settingsMatch = useMatch('/settings');
+  const { current } = library;
+  const isEditing = editorMatch !== null && current?.id === editorMatch.params.id;
+
+  let view: StudioView | null = null;
+  if (isEditing) view = 'editor';
+  else if (playMatch) view = 'play';
+  else if (settingsMatch) view = 'settings';
+
+  const context: AppShellContext = { library };
+  const autoplay = isEditing && (state as AutoplayState | null)?.autoplay === true;
+
+  // Clear the request so going back to this entry doesn't play again
+  const handleAutoplay = useCallback(() => {
+    navigate(pathname, { replace: true, state: null });
+  }, [navigate, pathname]);
+
+  return (
+    <SidebarProvider>
+      <Sidebar>
+        <SidebarHeader>
+          <span className="px-2 text-xl font-bold bg-gradient-to-r from-primary via-accent to-secondary bg-clip-text text-transparent">
+            SoundSpace
+          </span>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {NAV_ITEMS.map(item => (
+                  <SidebarMenuItem key={item.to}>
+                    <SidebarMenuButton asChild isActive={pathname === item.to}>
+                      <Link to={item.to}>
+                        <item.icon />
+                        <span>{item.label}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+          {current && (
+            <SidebarGroup>
+              <SidebarGroupLabel>Current project</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton asChild isActive={isEditing}>
+                      <Link to={`/projects/${current.id}`}>
+                        <Music />
+                        <span>{current.name}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          )}
+        </SidebarContent>
+      </Sidebar>
+      <SidebarInset>
+        <header className="flex h-12 items-center gap-2 border-b border-border/50 px-4">
+          <SidebarTrigger />
+          {isEditing && <span className="font-medium truncate">{current.name}</span>}
+        </header>
+        <Outlet context={context} />
+        <SoundSpace view={view} library={library} autoplay={autoplay} onAutoplay={handleAutoplay} />
+      </SidebarInset>
+    </SidebarProvider>
+  );
+};
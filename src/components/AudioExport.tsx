@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/download';
+import type { InstrumentOptions } from '@/lib/instruments';
+import type { MixerSettings } from '@/lib/mixer';
+import { renderArrangement } from '@/lib/render-audio';
+import { countArrangementNotes, type Track } from '@/lib/tracks';
+import { encodeWav, WAV_BIT_DEPTHS, WAV_SAMPLE_RATES, type WavBitDepth } from '@/lib/wav';
+import { AudioLines } from 'lucide-react';
+
+interface AudioExportProps {
+  tracks: Track[];
+  instruments: InstrumentOptions;
+  mixer: MixerSettings;
+}
+
+// Share of the progress bar given to rendering; encoding fills the rest
+const RENDER_SHARE = 90;
+
+export const AudioExport: React.FC<AudioExportProps> = ({ tracks, instruments, mixer }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [sampleRate, setSampleRate] = useState(44100);
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+  const [progress, setProgress] = useState<number | null>(null);
+  const isRendering = progress !== null;
+
+  const handleRender = async () => {
+    setProgress(0);
+    try {
+      const buffer = await renderArrangement(tracks, {
+        sampleRate,
+        instruments,
+        mixer,
+        onProgress: value => setProgress(value * RENDER_SHARE),
+      });
+      // Let the progress bar paint before encoding blocks the main thread
+      await new Promise(resolve => requestAnimationFrame(resolve));
+      const wav = encodeWav(buffer, bitDepth);
+      setProgress(100);
+      downloadBlob(wav, `soundspace-recording-${Date.now()}.wav`);
+      setOpen(false);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not render audio',
+        description: error instanceof Error ? error.message : 'Rendering failed.',
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={value => !isRendering && setOpen(value)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <AudioLines className="w-4 h-4" />
+          Download audio
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Download audio</DialogTitle>
+          <DialogDescription>
+            Render the arrangement to a WAV file anyone can listen to.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="audio-export-sample-rate">Sample rate</Label>
+            <Select
+              value={String(sampleRate)}
+              onValueChange={value => setSampleRate(Number(value))}
+              disabled={isRendering}
+            >
+              <SelectTrigger id="audio-export-sample-rate">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WAV_SAMPLE_RATES.map(rate => (
+                  <SelectItem key={rate} value={String(rate)}>
+                    {(rate / 1000).toFixed(1)} kHz
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audio-export-bit-depth">Bit depth</Label>
+            <Select
+              value={String(bitDepth)}
+              onValueChange={value => setBitDepth(Number(value) as WavBitDepth)}
+              disabled={isRendering}
+            >
+              <SelectTrigger id="audio-export-bit-depth">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WAV_BIT_DEPTHS.map(depth => (
+                  <SelectItem key={depth} value={String(depth)}>
+                    {depth}-bit PCM
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isRendering && (
+          <div className="space-y-2">
+            <Progress value={progress} />
+            <p className="text-sm text-muted-foreground">
+              {progress < RENDER_SHARE ? 'Rendering…' : 'Encoding…'}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={handleRender} disabled={isRendering || countArrangementNotes(tracks) === 0}>
+            Render WAV
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
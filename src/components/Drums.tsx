@@ -1,81 +1,52 @@
-import React, { useEffect, useRef, useState } from 'react';
-import * as Tone from 'tone';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { usePadSamples } from '@/hooks/use-pad-samples';
+import type { SampleLoadStatus } from '@/hooks/use-piano-sound';
+import { DRUM_KIT_IDS, DRUM_KITS, type DrumKitId } from '@/lib/drum-kits';
+import { drumSounds, formatDrumNote, type DrumSound } from '@/lib/instruments';
+import { isEditableTarget } from '@/lib/keyboard-layout';
+import { DEFAULT_VELOCITY } from '@/lib/recording';
+import { Loader2 } from 'lucide-react';
+import { PadSampleEditor } from './PadSampleEditor';
 
 interface DrumsProps {
-  onNotePlay: (note: string) => void;
+  onNoteOn: (note: string, velocity: number) => void;
+  onNoteOff: (note: string) => void;
+  highlightedPads?: Set<string>;
+  kit: DrumKitId;
+  onKitChange: (kit: DrumKitId) => void;
+  kitStatus: SampleLoadStatus;
+  padSamples: ReturnType<typeof usePadSamples>;
 }
 
-const drumSounds = [
-  { name: 'Kick', key: 's', color: 'from-red-500 to-red-600', note: 'C2' },
-  { name: 'Snare', key: 'd', color: 'from-orange-500 to-orange-600', note: 'D2' },
-  { name: 'Hi-Hat', key: 'f', color: 'from-yellow-500 to-yellow-600', note: 'F#2' },
-  { name: 'Crash', key: 'g', color: 'from-green-500 to-green-600', note: 'A#2' },
-  { name: 'Ride', key: 'h', color: 'from-blue-500 to-blue-600', note: 'C3' },
-  { name: 'Tom', key: 'j', color: 'from-purple-500 to-purple-600', note: 'E3' },
-];
-
-export const Drums: React.FC<DrumsProps> = ({ onNotePlay }) => {
-  const synthsRef = useRef<{ [key: string]: Tone.MembraneSynth | Tone.MetalSynth | Tone.NoiseSynth }>({});
-  const [activePads, setActivePads] = useState<Set<string>>(new Set());
+export const Drums: React.FC<DrumsProps> = ({
+  onNoteOn,
+  onNoteOff,
+  highlightedPads,
+  kit,
+  onKitChange,
+  kitStatus,
+  padSamples,
+}) => {
   const [pressedKeys, setPressedKeys] = useState<Set<string>>(new Set());
+  // Pad an audio file is being dragged over
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  // Pad held down with the mouse, released on mouse up or when the pointer leaves it
+  const mousePadRef = useRef<DrumSound | null>(null);
 
-  useEffect(() => {
-    // Initialize different synths for different drum sounds
-    synthsRef.current = {
-      'Kick': new Tone.MembraneSynth({
-        pitchDecay: 0.05,
-        octaves: 10,
-        oscillator: { type: 'sine' },
-        envelope: { attack: 0.001, decay: 0.4, sustain: 0.01, release: 1.4 }
-      }).toDestination(),
-      'Snare': new Tone.NoiseSynth({
-        noise: { type: 'white', playbackRate: 3 },
-        envelope: { attack: 0.001, decay: 0.2, sustain: 0 }
-      }).toDestination(),
-      'Hi-Hat': new Tone.MetalSynth({
-        envelope: { attack: 0.001, decay: 0.1, release: 0.2 },
-        harmonicity: 5.1,
-        modulationIndex: 32,
-        resonance: 4000,
-        octaves: 1.5
-      }).toDestination(),
-      'Crash': new Tone.MetalSynth({
-        envelope: { attack: 0.001, decay: 1, release: 3 },
-        harmonicity: 3.1,
-        modulationIndex: 16,
-        resonance: 4000,
-        octaves: 1.5
-      }).toDestination(),
-      'Ride': new Tone.MetalSynth({
-        envelope: { attack: 0.001, decay: 0.4, release: 0.8 },
-        harmonicity: 4.1,
-        modulationIndex: 12,
-        resonance: 3000,
-        octaves: 1.5
-      }).toDestination(),
-      'Tom': new Tone.MembraneSynth({
-        pitchDecay: 0.008,
-        octaves: 2,
-        oscillator: { type: 'triangle' },
-        envelope: { attack: 0.001, decay: 0.7, sustain: 0.1, release: 1.2 }
-      }).toDestination(),
-    };
-
-    return () => {
-      Object.values(synthsRef.current).forEach(synth => {
-        if (synth) synth.dispose();
-      });
-    };
-  }, []);
+  const playDrum = useCallback((drum: DrumSound, velocity = DEFAULT_VELOCITY) => {
+    onNoteOn(formatDrumNote(drum), velocity);
+  }, [onNoteOn]);
 
   useEffect(() => {
-    const handleKeyDown = async (event: KeyboardEvent) => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
       const key = event.key.toLowerCase();
       const drum = drumSounds.find(d => d.key === key);
       if (drum && !pressedKeys.has(key)) {
         setPressedKeys(prev => new Set(prev).add(key));
-        await playDrum(drum.name, drum.note);
+        playDrum(drum);
       }
     };
 
@@ -88,11 +59,7 @@ export const Drums: React.FC<DrumsProps> = ({ onNotePlay }) => {
           newSet.delete(key);
           return newSet;
         });
-        setActivePads(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(drum.name);
-          return newSet;
-        });
+        onNoteOff(formatDrumNote(drum));
       }
     };
 
@@ -103,45 +70,40 @@ export const Drums: React.FC<DrumsProps> = ({ onNotePlay }) => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [pressedKeys]);
-
-  const playDrum = async (drumName: string, note: string) => {
-    const synth = synthsRef.current[drumName];
-    if (!synth) return;
-
-    // Start audio context if needed
-    if (Tone.context.state !== 'running') {
-      await Tone.start();
-    }
-
-    setActivePads(prev => new Set(prev).add(drumName));
-    
-    // Different trigger methods for different synth types
-    if (synth instanceof Tone.NoiseSynth) {
-      synth.triggerAttackRelease('8n');
-    } else {
-      synth.triggerAttackRelease(note, '8n');
-    }
-    
-    onNotePlay(`${drumName}-${note}`);
-
-    // Remove active state after animation
-    setTimeout(() => {
-      setActivePads(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(drumName);
-        return newSet;
-      });
-    }, 200);
+  }, [pressedKeys, playDrum, onNoteOff]);
+
+  const handlePadDown = (drum: DrumSound) => {
+    mousePadRef.current = drum;
+    playDrum(drum);
+  };
+
+  const handlePadUp = () => {
+    if (!mousePadRef.current) return;
+    onNoteOff(formatDrumNote(mousePadRef.current));
+    mousePadRef.current = null;
+  };
+
+  const hasFiles = (event: React.DragEvent) => event.dataTransfer.types.includes('Files');
+
+  const handlePadDragOver = (event: React.DragEvent, drum: DrumSound) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setDropTarget(drum.name);
   };
 
-  const handlePadClick = (drumName: string, note: string) => {
-    playDrum(drumName, note);
+  const handlePadDrop = (event: React.DragEvent, drum: DrumSound) => {
+    if (!hasFiles(event)) return;
+    // Marks the drop as handled so the page doesn't import it as a recording
+    event.preventDefault();
+    setDropTarget(null);
+    const file = event.dataTransfer.files[0];
+    if (file) padSamples.assign(drum.name, file);
   };
 
   const isPadActive = (drumName: string) => {
     const drum = drumSounds.find(d => d.name === drumName);
-    return activePads.has(drumName) || (drum && pressedKeys.has(drum.key));
+    return highlightedPads?.has(drumName) || (drum && pressedKeys.has(drum.key));
   };
 
   return (
@@ -155,34 +117,66 @@ export const Drums: React.FC<DrumsProps> = ({ onNotePlay }) => {
         </p>
       </div>
 
+      <div className="flex items-center justify-center gap-2 mb-6">
+        <Select value={kit} onValueChange={value => onKitChange(value as DrumKitId)}>
+          <SelectTrigger className="w-40" aria-label="Drum kit">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DRUM_KIT_IDS.map(id => (
+              <SelectItem key={id} value={id}>
+                {DRUM_KITS[id].name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {kitStatus === 'loading' && (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" aria-label="Loading kit" />
+        )}
+      </div>
+
       <div className="grid grid-cols-2 md:grid-cols-3 gap-4 max-w-2xl mx-auto">
         {drumSounds.map((drum) => (
-          <button
-            key={drum.name}
-            onMouseDown={() => handlePadClick(drum.name, drum.note)}
-            className={`
-              relative h-24 md:h-32 rounded-full transition-all duration-200
-              bg-gradient-to-br ${drum.color} hover:scale-105 active:scale-95
-              shadow-lg hover:shadow-xl border-2 border-white/20
-              ${isPadActive(drum.name) ? 'scale-110 animate-drum-hit' : ''}
-            `}
-            style={{
-              boxShadow: isPadActive(drum.name) ? 'var(--shadow-active)' : 'var(--shadow-key)',
-              transform: isPadActive(drum.name) ? 'scale(1.1)' : undefined,
-            }}
-          >
-            <div className="absolute inset-0 rounded-full bg-gradient-to-t from-black/20 to-white/20"></div>
-            <div className="relative z-10 h-full flex flex-col items-center justify-center text-white">
-              <span className="font-bold text-lg md:text-xl">{drum.name}</span>
-              <span className="text-sm opacity-80 bg-black/30 px-2 py-1 rounded mt-1">
-                {drum.key.toUpperCase()}
-              </span>
-            </div>
+          <div key={drum.name} className="flex flex-col gap-1">
+            <button
+              onMouseDown={() => handlePadDown(drum)}
+              onMouseUp={handlePadUp}
+              onMouseLeave={handlePadUp}
+              onDragOver={event => handlePadDragOver(event, drum)}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={event => handlePadDrop(event, drum)}
+              className={`
+                relative h-24 md:h-32 rounded-full transition-all duration-200
+                bg-gradient-to-br ${drum.color} hover:scale-105 active:scale-95
+                shadow-lg hover:shadow-xl border-2 border-white/20
+                ${isPadActive(drum.name) ? 'scale-110 animate-drum-hit' : ''}
+                ${dropTarget === drum.name ? 'ring-4 ring-primary ring-offset-2 ring-offset-background' : ''}
+              `}
+              style={{
+                boxShadow: isPadActive(drum.name) ? 'var(--shadow-active)' : 'var(--shadow-key)',
+                transform: isPadActive(drum.name) ? 'scale(1.1)' : undefined,
+              }}
+            >
+              <div className="absolute inset-0 rounded-full bg-gradient-to-t from-black/20 to-white/20"></div>
+              <div className="relative z-10 h-full flex flex-col items-center justify-center text-white">
+                <span className="font-bold text-lg md:text-xl">{drum.name}</span>
+                <span className="text-sm opacity-80 bg-black/30 px-2 py-1 rounded mt-1">
+                  {drum.key.toUpperCase()}
+                </span>
+              </div>
             
-            {isPadActive(drum.name) && (
-              <div className="absolute inset-0 rounded-full bg-white/30 animate-glow-pulse"></div>
-            )}
-          </button>
+              {isPadActive(drum.name) && (
+                <div className="absolute inset-0 rounded-full bg-white/30 animate-glow-pulse"></div>
+              )}
+            </button>
+            <PadSampleEditor
+              drum={drum}
+              sample={padSamples.samples[drum.name]}
+              onAssign={file => padSamples.assign(drum.name, file)}
+              onUpdate={settings => padSamples.update(drum.name, settings)}
+              onRemove={() => padSamples.remove(drum.name)}
+            />
+          </div>
         ))}
       </div>
 
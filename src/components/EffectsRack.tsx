@@ -0,0 +1,142 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  createEffectSlot,
+  EFFECT_TYPES,
+  EFFECTS,
+  MAX_EFFECT_SLOTS,
+  moveEffectSlot,
+  type EffectParam,
+  type EffectSlot,
+  type EffectType,
+} from '@/lib/effects';
+import type { Instrument } from '@/lib/recording';
+import { ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
+
+interface EffectsRackProps {
+  instrument: Instrument;
+  slots: EffectSlot[];
+  onChange: (slots: EffectSlot[]) => void;
+}
+
+const RACK_TITLES: { [instrument in Instrument]: string } = {
+  piano: 'Piano effects',
+  drums: 'Drum effects',
+};
+
+const formatParam = ({ unit, step }: EffectParam, value: number) => {
+  const decimals = step >= 1 ? 0 : Math.min(3, Math.ceil(-Math.log10(step)));
+  if (unit === 'Hz' && value >= 1000) return `${(value / 1000).toFixed(1)} kHz`;
+  if (!unit) return value.toFixed(decimals);
+  return `${value.toFixed(decimals)} ${unit}`;
+};
+
+export const EffectsRack: React.FC<EffectsRackProps> = ({ instrument, slots, onChange }) => {
+  const update = (id: string, changes: Partial<EffectSlot>) => {
+    onChange(slots.map(slot => (slot.id === id ? { ...slot, ...changes } : slot)));
+  };
+
+  return (
+    <Card className="p-6 mt-6 bg-card/70 backdrop-blur-sm border-border/50">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          {RACK_TITLES[instrument]}
+        </h3>
+        <Select
+          value=""
+          onValueChange={type => onChange([...slots, createEffectSlot(type as EffectType)])}
+          disabled={slots.length >= MAX_EFFECT_SLOTS}
+        >
+          <SelectTrigger className="w-40" aria-label="Add effect">
+            <SelectValue placeholder="Add effect" />
+          </SelectTrigger>
+          <SelectContent>
+            {EFFECT_TYPES.map(type => (
+              <SelectItem key={type} value={type}>
+                {EFFECTS[type].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {slots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No effects. The instrument plays dry.</p>
+      ) : (
+        <div className="space-y-2">
+          {slots.map((slot, index) => {
+            const { label, params } = EFFECTS[slot.type];
+            return (
+              <div
+                key={slot.id}
+                className={`rounded-md border border-border/50 p-3 space-y-3 ${slot.bypassed ? 'opacity-60' : ''}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-4">{index + 1}</span>
+                  <span className="font-medium flex-1">{label}</span>
+                  <Switch
+                    checked={!slot.bypassed}
+                    onCheckedChange={on => update(slot.id, { bypassed: !on })}
+                    aria-label={`${label} on`}
+                  />
+                  <Button
+                    onClick={() => onChange(moveEffectSlot(slots, index, -1))}
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === 0}
+                    aria-label={`Move ${label} earlier`}
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    onClick={() => onChange(moveEffectSlot(slots, index, 1))}
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === slots.length - 1}
+                    aria-label={`Move ${label} later`}
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    onClick={() => onChange(slots.filter(other => other.id !== slot.id))}
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove ${label}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="grid gap-x-6 gap-y-3 sm:grid-cols-2">
+                  {params.map(param => {
+                    const value = slot.params[param.name] ?? param.defaultValue;
+                    return (
+                      <div key={param.name} className="space-y-1">
+                        <div className="flex justify-between text-xs">
+                          <Label className="text-xs">{param.label}</Label>
+                          <span className="text-muted-foreground">{formatParam(param, value)}</span>
+                        </div>
+                        <Slider
+                          value={[value]}
+                          min={param.min}
+                          max={param.max}
+                          step={param.step}
+                          onValueChange={([next]) => update(slot.id, { params: { ...slot.params, [param.name]: next } })}
+                          aria-label={`${label} ${param.label.toLowerCase()}`}
+                        />
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+};
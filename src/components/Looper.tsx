@@ -0,0 +1,133 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Toggle } from '@/components/ui/toggle';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { useLooper } from '@/hooks/use-looper';
+import { LOOP_BAR_OPTIONS } from '@/lib/looper';
+import { formatTimeSignature } from '@/lib/tempo';
+import { Circle, Eraser, Play, Square, Undo2 } from 'lucide-react';
+
+interface LooperProps {
+  looper: ReturnType<typeof useLooper>;
+  // Called instead of looper.start and looper.record, so the page can stop
+  // anything else using the Transport
+  onStart: () => void;
+  onRecord: () => void;
+  disabled?: boolean;
+}
+
+const RECORD_LABELS = {
+  idle: 'Record layer',
+  armed: 'Waiting for the loop…',
+  recording: 'Recording layer…',
+};
+
+export const Looper: React.FC<LooperProps> = ({ looper, onStart, onRecord, disabled }) => {
+  const { layers, tempo, recordState } = looper;
+  const isRecording = recordState !== 'idle';
+
+  return (
+    <Card className="p-6 mt-6 bg-card/70 backdrop-blur-sm border-border/50">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold bg-gradient-to-r from-accent to-primary bg-clip-text text-transparent">
+            Looper
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {tempo.bpm} BPM · {formatTimeSignature(tempo.timeSignature)}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {looper.isPlaying ? (
+            <Button onClick={looper.stop} variant="outline" size="icon" aria-label="Stop looper">
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button onClick={onStart} variant="outline" size="icon" aria-label="Play looper" disabled={disabled}>
+              <Play className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            onClick={onRecord}
+            className={`gap-2 ${isRecording ? 'bg-gradient-to-r from-red-600 to-red-700 animate-glow-pulse' : ''}`}
+            disabled={disabled || isRecording}
+          >
+            <Circle className="w-4 h-4" />
+            {RECORD_LABELS[recordState]}
+          </Button>
+          <Button onClick={looper.undo} variant="outline" className="gap-2" disabled={layers.length === 0}>
+            <Undo2 className="w-4 h-4" />
+            Undo layer
+          </Button>
+          <Button onClick={looper.clear} variant="outline" className="gap-2" disabled={layers.length === 0}>
+            <Eraser className="w-4 h-4" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6 mb-6">
+        <div className="space-y-2">
+          <Label>Loop length</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            className="justify-start"
+            value={String(looper.bars)}
+            onValueChange={value => value && looper.setBars(Number(value))}
+            disabled={looper.isPlaying || layers.length > 0}
+            aria-label="Loop length in bars"
+          >
+            {LOOP_BAR_OPTIONS.map(bars => (
+              <ToggleGroupItem key={bars} value={String(bars)}>
+                {bars} {bars === 1 ? 'bar' : 'bars'}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="looper-click" checked={looper.click} onCheckedChange={looper.setClick} />
+          <Label htmlFor="looper-click" className="font-normal">Click</Label>
+        </div>
+      </div>
+
+      <div className="flex gap-1 mb-6" aria-hidden>
+        {Array.from({ length: looper.beatsPerLoop }, (_, i) => (
+          <div
+            key={i}
+            className={`
+              h-2 flex-1 rounded-full
+              ${i > 0 && i % tempo.timeSignature.beats === 0 ? 'ml-2' : ''}
+              ${i === looper.beat ? (isRecording ? 'bg-red-500' : 'bg-primary') : 'bg-muted/40'}
+            `}
+          />
+        ))}
+      </div>
+
+      {layers.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {layers.map(layer => (
+            <Toggle
+              key={layer.id}
+              variant="outline"
+              pressed={!layer.muted}
+              onPressedChange={() => looper.toggleMute(layer.id)}
+              aria-label={`${layer.muted ? 'Unmute' : 'Mute'} ${layer.name}`}
+              className={layer.muted ? 'opacity-60 line-through' : ''}
+            >
+              {layer.name} ({layer.notes.length})
+            </Toggle>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Record a pass of piano or drums, then keep adding layers on top.
+        </p>
+      )}
+    </Card>
+  );
+};
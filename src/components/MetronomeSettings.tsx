@@ -0,0 +1,124 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { COUNT_IN_OPTIONS, type MetronomeSettings as Settings } from '@/lib/metronome';
+import { BPM_RANGE, formatTimeSignature, TIME_SIGNATURES } from '@/lib/tempo';
+import { Timer } from 'lucide-react';
+
+interface MetronomeSettingsProps {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  // Tempo can't change mid-take
+  disabled?: boolean;
+  // Set when the tempo comes from tracks already recorded
+  tempoLocked?: boolean;
+}
+
+const formatCountIn = (bars: number) => {
+  if (bars === 0) return 'Off';
+  return bars === 1 ? '1 bar' : `${bars} bars`;
+};
+
+export const MetronomeSettings: React.FC<MetronomeSettingsProps> = ({ settings, onChange, disabled, tempoLocked }) => {
+  const { tempo } = settings;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2" disabled={disabled}>
+          <Timer className="w-4 h-4" />
+          {tempo.bpm} BPM · {formatTimeSignature(tempo.timeSignature)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Tempo</Label>
+            <span className="text-sm text-muted-foreground">{tempo.bpm} BPM</span>
+          </div>
+          <Slider
+            value={[tempo.bpm]}
+            min={BPM_RANGE.min}
+            max={BPM_RANGE.max}
+            step={1}
+            onValueChange={([bpm]) => onChange({ ...settings, tempo: { ...tempo, bpm } })}
+            disabled={tempoLocked}
+            aria-label="Tempo"
+          />
+          {tempoLocked && (
+            <p className="text-xs text-muted-foreground">
+              New tracks are recorded at the tempo of the tracks already there.
+            </p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="metronome-time-signature">Time signature</Label>
+            <Select
+              value={formatTimeSignature(tempo.timeSignature)}
+              onValueChange={value => onChange({
+                ...settings,
+                tempo: {
+                  ...tempo,
+                  timeSignature: TIME_SIGNATURES.find(signature => formatTimeSignature(signature) === value)!,
+                },
+              })}
+              disabled={tempoLocked}
+            >
+              <SelectTrigger id="metronome-time-signature">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TIME_SIGNATURES.map(signature => (
+                  <SelectItem key={formatTimeSignature(signature)} value={formatTimeSignature(signature)}>
+                    {formatTimeSignature(signature)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="metronome-count-in">Count-in</Label>
+            <Select
+              value={String(settings.countInBars)}
+              onValueChange={value => onChange({ ...settings, countInBars: Number(value) })}
+            >
+              <SelectTrigger id="metronome-count-in">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COUNT_IN_OPTIONS.map(bars => (
+                  <SelectItem key={bars} value={String(bars)}>
+                    {formatCountIn(bars)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="metronome-click" className="font-normal">Click while recording</Label>
+          <Switch
+            id="metronome-click"
+            checked={settings.click}
+            onCheckedChange={click => onChange({ ...settings, click })}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="metronome-accent" className="font-normal">Accent the downbeat</Label>
+          <Switch
+            id="metronome-accent"
+            checked={settings.accent}
+            onCheckedChange={accent => onChange({ ...settings, accent })}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { downloadBlob } from '@/lib/download';
+import { DEFAULT_MIDI_PPQ, encodeMidiFile, MIDI_PPQ_OPTIONS } from '@/lib/midi-file';
+import type { NoteEvent } from '@/lib/recording';
+import { getQuarterNoteBpm, type Tempo } from '@/lib/tempo';
+import { FileMusic } from 'lucide-react';
+
+interface MidiExportProps {
+  notes: NoteEvent[];
+  // The take's tempo, which the exported tempo starts out at
+  tempo: Tempo;
+}
+
+export const MidiExport: React.FC<MidiExportProps> = ({ notes, tempo }) => {
+  const [open, setOpen] = useState(false);
+  const [bpm, setBpm] = useState(() => getQuarterNoteBpm(tempo));
+  const [ppq, setPpq] = useState(DEFAULT_MIDI_PPQ);
+
+  useEffect(() => {
+    setBpm(getQuarterNoteBpm(tempo));
+  }, [tempo]);
+
+  const isValidBpm = Number.isFinite(bpm) && bpm >= 20 && bpm <= 300;
+
+  const handleExport = () => {
+    const data = encodeMidiFile(notes, { bpm, ppq, timeSignature: tempo.timeSignature });
+    downloadBlob(new Blob([data], { type: 'audio/midi' }), `soundspace-recording-${Date.now()}.mid`);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <FileMusic className="w-4 h-4" />
+          MIDI file
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="midi-export-bpm">Tempo (BPM)</Label>
+          <Input
+            id="midi-export-bpm"
+            type="number"
+            min={20}
+            max={300}
+            value={bpm}
+            onChange={event => setBpm(Number(event.target.value))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="midi-export-ppq">Resolution (PPQ)</Label>
+          <Select value={String(ppq)} onValueChange={value => setPpq(Number(value))}>
+            <SelectTrigger id="midi-export-ppq">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MIDI_PPQ_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>
+                  {option} ticks per quarter
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={handleExport} disabled={!isValidBpm} className="w-full">
+          Download .mid
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
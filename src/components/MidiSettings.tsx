@@ -0,0 +1,221 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import type { useMidiAccess } from '@/hooks/use-midi-access';
+import type { useMidiInput } from '@/hooks/use-midi-input';
+import type { useMidiOutput } from '@/hooks/use-midi-output';
+import { drumSounds } from '@/lib/instruments';
+import { midiToNoteName } from '@/lib/notes';
+import type { Instrument } from '@/lib/recording';
+import type { InstrumentOutput, InstrumentRouting, MidiDrumMapping } from '@/lib/web-midi';
+
+interface MidiSettingsProps {
+  access: ReturnType<typeof useMidiAccess>;
+  input: ReturnType<typeof useMidiInput>;
+  output: ReturnType<typeof useMidiOutput>;
+  drumMapping: MidiDrumMapping;
+  onDrumMappingChange: (mapping: MidiDrumMapping) => void;
+  routing: InstrumentRouting;
+  onRoutingChange: (routing: InstrumentRouting) => void;
+}
+
+const CHANNELS = Array.from({ length: 16 }, (_, i) => i + 1);
+
+const INSTRUMENT_LABELS: { [instrument in Instrument]: string } = {
+  piano: 'Piano',
+  drums: 'Drums',
+};
+
+const OUTPUT_LABELS: { [output in InstrumentOutput]: string } = {
+  internal: 'Internal',
+  midi: 'MIDI out',
+  both: 'Both',
+};
+
+interface ChannelSelectProps {
+  value: number;
+  onChange: (channel: number) => void;
+  label: string;
+  disabled?: boolean;
+}
+
+const ChannelSelect: React.FC<ChannelSelectProps> = ({ value, onChange, label, disabled }) => (
+  <Select value={String(value)} onValueChange={channel => onChange(Number(channel))} disabled={disabled}>
+    <SelectTrigger aria-label={label}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {CHANNELS.map(channel => (
+        <SelectItem key={channel} value={String(channel)}>
+          Channel {channel}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export const MidiSettings: React.FC<MidiSettingsProps> = ({
+  access,
+  input,
+  output,
+  drumMapping,
+  onDrumMappingChange,
+  routing,
+  onRoutingChange,
+}) => {
+  const rangeEnd = drumMapping.rangeStart + drumSounds.length - 1;
+
+  return (
+    <div className="space-y-4">
+      {!access.supported ? (
+        <p className="text-sm text-muted-foreground">
+          Your browser does not support Web MIDI. Try a Chromium-based browser.
+        </p>
+      ) : !access.access ? (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Play from a hardware keyboard or pad controller, or drive external synths.
+          </p>
+          <Button onClick={access.connect} className="w-full">
+            Enable MIDI devices
+          </Button>
+        </div>
+      ) : (
+        <Tabs defaultValue="input">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="input">Input</TabsTrigger>
+            <TabsTrigger value="output">Output</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="input" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="midi-input-device">Input device</Label>
+              <Select
+                value={input.selectedInputId ?? undefined}
+                onValueChange={input.setSelectedInputId}
+                disabled={input.inputs.length === 0}
+              >
+                <SelectTrigger id="midi-input-device">
+                  <SelectValue placeholder="No devices found" />
+                </SelectTrigger>
+                <SelectContent>
+                  {input.inputs.map(port => (
+                    <SelectItem key={port.id} value={port.id}>
+                      {port.name || port.id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Drum pads</Label>
+              <RadioGroup
+                value={drumMapping.mode}
+                onValueChange={mode => onDrumMappingChange({ ...drumMapping, mode: mode as MidiDrumMapping['mode'] })}
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="channel" id="midi-drum-mode-channel" />
+                  <Label htmlFor="midi-drum-mode-channel" className="font-normal">By channel (General MIDI)</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="range" id="midi-drum-mode-range" />
+                  <Label htmlFor="midi-drum-mode-range" className="font-normal">By key range</Label>
+                </div>
+              </RadioGroup>
+
+              {drumMapping.mode === 'channel' ? (
+                <ChannelSelect
+                  label="Drum channel"
+                  value={drumMapping.channel}
+                  onChange={channel => onDrumMappingChange({ ...drumMapping, channel })}
+                />
+              ) : (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={127 - drumSounds.length + 1}
+                    value={drumMapping.rangeStart}
+                    onChange={event => onDrumMappingChange({
+                      ...drumMapping,
+                      rangeStart: Math.min(127 - drumSounds.length + 1, Math.max(0, Number(event.target.value) || 0)),
+                    })}
+                    aria-label="First drum key"
+                    className="w-20"
+                  />
+                  <span className="text-sm text-muted-foreground">
+                    {midiToNoteName(drumMapping.rangeStart)}–{midiToNoteName(rangeEnd)}
+                  </span>
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="output" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="midi-output-device">Output device</Label>
+              <Select
+                value={output.selectedOutputId ?? undefined}
+                onValueChange={output.setSelectedOutputId}
+                disabled={output.outputs.length === 0}
+              >
+                <SelectTrigger id="midi-output-device">
+                  <SelectValue placeholder="No devices found" />
+                </SelectTrigger>
+                <SelectContent>
+                  {output.outputs.map(port => (
+                    <SelectItem key={port.id} value={port.id}>
+                      {port.name || port.id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {(Object.keys(routing) as Instrument[]).map(instrument => {
+              const route = routing[instrument];
+              const setRoute = (changes: Partial<typeof route>) => {
+                onRoutingChange({ ...routing, [instrument]: { ...route, ...changes } });
+              };
+              return (
+                <div key={instrument} className="space-y-2">
+                  <Label>{INSTRUMENT_LABELS[instrument]}</Label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={route.output}
+                      onValueChange={value => setRoute({ output: value as InstrumentOutput })}
+                    >
+                      <SelectTrigger aria-label={`${INSTRUMENT_LABELS[instrument]} output`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(OUTPUT_LABELS) as InstrumentOutput[]).map(value => (
+                          <SelectItem key={value} value={value}>
+                            {OUTPUT_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <ChannelSelect
+                      label={`${INSTRUMENT_LABELS[instrument]} MIDI channel`}
+                      value={route.channel}
+                      onChange={channel => setRoute({ channel })}
+                      disabled={route.output === 'internal'}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </TabsContent>
+        </Tabs>
+      )}
+
+      {access.error && <p className="text-sm text-destructive">{access.error}</p>}
+    </div>
+  );
+};
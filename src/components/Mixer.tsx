@@ -0,0 +1,165 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Toggle } from '@/components/ui/toggle';
+import { useMixerLevels } from '@/hooks/use-mixer';
+import { drumSounds } from '@/lib/instruments';
+import {
+  CHANNEL_VOLUME_RANGE,
+  formatPan,
+  getPadSettings,
+  isChannelAudible,
+  METER_FLOOR,
+  type ChannelSettings,
+  type MixerSettings,
+} from '@/lib/mixer';
+import type { Instrument } from '@/lib/recording';
+
+interface MixerProps {
+  settings: MixerSettings;
+  onChange: (settings: MixerSettings) => void;
+}
+
+const INSTRUMENT_LABELS: { [instrument in Instrument]: string } = {
+  piano: 'Piano',
+  drums: 'Drums',
+};
+
+const PeakMeter: React.FC<{ level: number | undefined }> = ({ level = METER_FLOOR }) => {
+  const fill = Math.min(1, (level - METER_FLOOR) / -METER_FLOOR);
+  const color = level > -1 ? 'bg-red-500' : level > -12 ? 'bg-yellow-500' : 'bg-green-500';
+  return (
+    <div className="h-2 w-24 rounded-full bg-secondary overflow-hidden" aria-hidden>
+      <div className={`h-full ${color}`} style={{ width: `${fill * 100}%` }} />
+    </div>
+  );
+};
+
+interface ChannelStripProps {
+  label: string;
+  settings: ChannelSettings;
+  onChange: (settings: ChannelSettings) => void;
+  audible: boolean;
+  level: number | undefined;
+}
+
+const ChannelStrip: React.FC<ChannelStripProps> = ({ label, settings, onChange, audible, level }) => {
+  const update = (changes: Partial<ChannelSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className={`flex flex-wrap items-center gap-3 rounded-md border border-border/50 p-2 ${audible ? '' : 'opacity-60'}`}>
+      <span className="text-sm font-medium w-16 truncate">{label}</span>
+      <Toggle size="sm" pressed={settings.muted} onPressedChange={muted => update({ muted })} aria-label={`Mute ${label}`}>
+        M
+      </Toggle>
+      <Toggle size="sm" pressed={settings.solo} onPressedChange={solo => update({ solo })} aria-label={`Solo ${label}`}>
+        S
+      </Toggle>
+      <div className="flex items-center gap-2 min-w-40 flex-1">
+        <Slider
+          value={[settings.volume]}
+          min={CHANNEL_VOLUME_RANGE.min}
+          max={CHANNEL_VOLUME_RANGE.max}
+          step={1}
+          onValueChange={([volume]) => update({ volume })}
+          aria-label={`${label} volume`}
+        />
+        <span className="text-xs text-muted-foreground w-12 text-right">{settings.volume} dB</span>
+      </div>
+      <div className="flex items-center gap-2 w-32">
+        <Slider
+          value={[settings.pan]}
+          min={-1}
+          max={1}
+          step={0.05}
+          onValueChange={([pan]) => update({ pan })}
+          aria-label={`${label} pan`}
+        />
+        <span className="text-xs text-muted-foreground w-8 text-right">{formatPan(settings.pan)}</span>
+      </div>
+      <PeakMeter level={level} />
+    </div>
+  );
+};
+
+/**
+ * A strip for each instrument and drum pad, summing into the master bus.
+ * Pads feed the drums strip, so it carries their combined level.
+ */
+export const Mixer: React.FC<MixerProps> = ({ settings, onChange }) => {
+  const levels = useMixerLevels();
+  const instruments = Object.values(settings.instruments);
+  const pads = Object.values(settings.pads);
+
+  const updateInstrument = (instrument: Instrument, channel: ChannelSettings) => {
+    onChange({ ...settings, instruments: { ...settings.instruments, [instrument]: channel } });
+  };
+
+  const updatePad = (name: string, channel: ChannelSettings) => {
+    onChange({ ...settings, pads: { ...settings.pads, [name]: channel } });
+  };
+
+  return (
+    <Card className="p-6 mt-6 bg-card/70 backdrop-blur-sm border-border/50">
+      <h3 className="text-xl font-bold mb-4 bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+        Mixer
+      </h3>
+
+      <div className="space-y-2">
+        {(Object.keys(INSTRUMENT_LABELS) as Instrument[]).map(instrument => (
+          <ChannelStrip
+            key={instrument}
+            label={INSTRUMENT_LABELS[instrument]}
+            settings={settings.instruments[instrument]}
+            onChange={channel => updateInstrument(instrument, channel)}
+            audible={isChannelAudible(settings.instruments[instrument], instruments)}
+            level={levels?.instruments[instrument]}
+          />
+        ))}
+      </div>
+
+      <h4 className="text-sm font-semibold text-muted-foreground mt-6 mb-2">Drum pads</h4>
+      <div className="space-y-2">
+        {drumSounds.map(drum => {
+          const channel = getPadSettings(settings, drum.name);
+          return (
+            <ChannelStrip
+              key={drum.name}
+              label={drum.name}
+              settings={channel}
+              onChange={next => updatePad(drum.name, next)}
+              audible={isChannelAudible(channel, pads)}
+              level={levels?.pads[drum.name]}
+            />
+          );
+        })}
+      </div>
+
+      <h4 className="text-sm font-semibold text-muted-foreground mt-6 mb-2">Master</h4>
+      <div className="flex flex-wrap items-center gap-3 rounded-md border border-primary/50 p-2">
+        <div className="flex items-center gap-2 min-w-40 flex-1">
+          <Slider
+            value={[settings.master.volume]}
+            min={CHANNEL_VOLUME_RANGE.min}
+            max={CHANNEL_VOLUME_RANGE.max}
+            step={1}
+            onValueChange={([volume]) => onChange({ ...settings, master: { ...settings.master, volume } })}
+            aria-label="Master volume"
+          />
+          <span className="text-xs text-muted-foreground w-12 text-right">{settings.master.volume} dB</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="mixer-limiter"
+            checked={settings.master.limiter}
+            onCheckedChange={limiter => onChange({ ...settings, master: { ...settings.master, limiter } })}
+          />
+          <Label htmlFor="mixer-limiter" className="text-sm">Limiter</Label>
+        </div>
+        <PeakMeter level={levels?.master} />
+      </div>
+    </Card>
+  );
+};
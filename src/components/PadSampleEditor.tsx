@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Slider } from '@/components/ui/slider';
+import type { DrumSound } from '@/lib/instruments';
+import {
+  ACCEPTED_SAMPLE_FILES,
+  PAD_GAIN_RANGE,
+  PAD_PITCH_RANGE,
+  type PadSample,
+  type PadSampleSettings,
+} from '@/lib/pad-samples';
+import { AudioWaveform, RotateCcw, Upload } from 'lucide-react';
+
+interface PadSampleEditorProps {
+  drum: DrumSound;
+  sample?: PadSample;
+  onAssign: (file: File) => void;
+  onUpdate: (settings: Partial<PadSampleSettings>) => void;
+  onRemove: () => void;
+}
+
+const formatSigned = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+export const PadSampleEditor: React.FC<PadSampleEditorProps> = ({ drum, sample, onAssign, onUpdate, onRemove }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Slider positions while dragging; the sample is only updated once a drag ends
+  const [gain, setGain] = useState(sample?.gain ?? 0);
+  const [pitch, setPitch] = useState(sample?.pitch ?? 0);
+
+  useEffect(() => {
+    setGain(sample?.gain ?? 0);
+    setPitch(sample?.pitch ?? 0);
+  }, [sample?.gain, sample?.pitch]);
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onAssign(file);
+    // Allow picking the same file again
+    event.target.value = '';
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full gap-1 text-xs text-muted-foreground">
+          <AudioWaveform className="w-3 h-3 shrink-0" />
+          <span className="truncate">{sample ? sample.fileName : 'Kit sound'}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div>
+          <p className="font-semibold">{drum.name} pad</p>
+          <p className="text-sm text-muted-foreground truncate">
+            {sample ? sample.fileName : 'Upload a WAV or MP3, or drop one onto the pad.'}
+          </p>
+        </div>
+
+        {sample && (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Gain</Label>
+                <span className="text-sm text-muted-foreground">{formatSigned(gain)} dB</span>
+              </div>
+              <Slider
+                value={[gain]}
+                min={PAD_GAIN_RANGE.min}
+                max={PAD_GAIN_RANGE.max}
+                step={1}
+                onValueChange={([value]) => setGain(value)}
+                onValueCommit={([value]) => onUpdate({ gain: value })}
+                aria-label={`${drum.name} gain`}
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Pitch</Label>
+                <span className="text-sm text-muted-foreground">{formatSigned(pitch)} st</span>
+              </div>
+              <Slider
+                value={[pitch]}
+                min={PAD_PITCH_RANGE.min}
+                max={PAD_PITCH_RANGE.max}
+                step={1}
+                onValueChange={([value]) => setPitch(value)}
+                onValueCommit={([value]) => onUpdate({ pitch: value })}
+                aria-label={`${drum.name} pitch`}
+              />
+            </div>
+          </>
+        )}
+
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPTED_SAMPLE_FILES}
+          className="hidden"
+          onChange={handleChange}
+        />
+        <div className="flex gap-2">
+          <Button onClick={() => inputRef.current?.click()} variant="outline" className="flex-1 gap-2">
+            <Upload className="w-4 h-4" />
+            {sample ? 'Replace' : 'Upload sample'}
+          </Button>
+          {sample && (
+            <Button onClick={onRemove} variant="outline" className="flex-1 gap-2">
+              <RotateCcw className="w-4 h-4" />
+              Kit sound
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
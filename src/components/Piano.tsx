@@ -1,70 +1,100 @@
-import React, { useEffect, useRef, useState } from 'react';
-import * as Tone from 'tone';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { SampleLoadStatus } from '@/hooks/use-piano-sound';
+import { pianoRange } from '@/lib/instruments';
+import {
+  createKeyboardLayout,
+  createKeyboardMapping,
+  DEFAULT_OCTAVE,
+  getOctaveBounds,
+  isEditableTarget,
+  OCTAVE_DOWN_KEY,
+  OCTAVE_UP_KEY,
+} from '@/lib/keyboard-layout';
+import type { PianoSound } from '@/lib/piano-samples';
+import { DEFAULT_VELOCITY } from '@/lib/recording';
+import { Loader2, Minus, Plus, ZoomIn } from 'lucide-react';
 
 interface PianoProps {
-  onNotePlay: (note: string) => void;
+  onNoteOn: (note: string, velocity: number) => void;
+  onNoteOff: (note: string) => void;
+  highlightedNotes?: Set<string>;
+  sound: PianoSound;
+  onSoundChange: (sound: PianoSound) => void;
+  soundStatus: SampleLoadStatus;
 }
 
-const whiteKeys = ['C4', 'D4', 'E4', 'F4', 'G4', 'A4', 'B4', 'C5'];
-const blackKeys = ['C#4', 'D#4', null, 'F#4', 'G#4', 'A#4', null];
+const pianoKeys = createKeyboardLayout(pianoRange.low, pianoRange.high);
+const whiteKeys = pianoKeys.filter(key => !key.isBlack);
+const blackKeys = pianoKeys.filter(key => key.isBlack);
+const octaveBounds = getOctaveBounds(pianoRange.low, pianoRange.high);
 
-// Keyboard mapping for white keys
-const keyboardMapping: { [key: string]: string } = {
-  'a': 'C4', 's': 'D4', 'd': 'E4', 'f': 'F4',
-  'g': 'G4', 'h': 'A4', 'j': 'B4', 'k': 'C5',
-  // Black keys
-  'w': 'C#4', 'e': 'D#4', 't': 'F#4', 'y': 'G#4', 'u': 'A#4'
-};
+// White key width in px, adjusted by the zoom slider
+const MIN_KEY_WIDTH = 16;
+const MAX_KEY_WIDTH = 64;
+const DEFAULT_KEY_WIDTH = 40;
 
-export const Piano: React.FC<PianoProps> = ({ onNotePlay }) => {
-  const synthRef = useRef<Tone.Synth | null>(null);
-  const [activeKeys, setActiveKeys] = useState<Set<string>>(new Set());
-  const [pressedKeys, setPressedKeys] = useState<Set<string>>(new Set());
+export const Piano: React.FC<PianoProps> = ({
+  onNoteOn,
+  onNoteOff,
+  highlightedNotes,
+  sound,
+  onSoundChange,
+  soundStatus,
+}) => {
+  const mouseNoteRef = useRef<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Held computer keys and the note each one started, so a key released
+  // after an octave shift still stops the right note
+  const [pressedKeys, setPressedKeys] = useState<Map<string, string>>(new Map());
+  const [octave, setOctave] = useState(DEFAULT_OCTAVE);
+  const [keyWidth, setKeyWidth] = useState(DEFAULT_KEY_WIDTH);
 
-  useEffect(() => {
-    // Initialize Tone.js synth
-    synthRef.current = new Tone.Synth({
-      oscillator: {
-        type: 'triangle'
-      },
-      envelope: {
-        attack: 0.02,
-        decay: 0.1,
-        sustain: 0.3,
-        release: 1.2
-      }
-    }).toDestination();
+  const keyboardMapping = useMemo(
+    () => createKeyboardMapping(octave, pianoRange.low, pianoRange.high),
+    [octave],
+  );
 
-    return () => {
-      if (synthRef.current) {
-        synthRef.current.dispose();
-      }
-    };
-  }, []);
+  const shiftOctave = (amount: number) => {
+    setOctave(prev => Math.min(octaveBounds.max, Math.max(octaveBounds.min, prev + amount)));
+  };
+
+  const startNote = useCallback((note: string, velocity = DEFAULT_VELOCITY) => {
+    onNoteOn(note, velocity);
+  }, [onNoteOn]);
+
+  const stopNote = useCallback((note: string) => {
+    onNoteOff(note);
+  }, [onNoteOff]);
 
   useEffect(() => {
-    const handleKeyDown = async (event: KeyboardEvent) => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditableTarget(event.target)) return;
       const key = event.key.toLowerCase();
-      if (keyboardMapping[key] && !pressedKeys.has(key)) {
-        setPressedKeys(prev => new Set(prev).add(key));
-        await playNote(keyboardMapping[key]);
+      if (key === OCTAVE_DOWN_KEY || key === OCTAVE_UP_KEY) {
+        if (!event.repeat) shiftOctave(key === OCTAVE_UP_KEY ? 1 : -1);
+        return;
+      }
+      const note = keyboardMapping[key];
+      if (note && !pressedKeys.has(key)) {
+        setPressedKeys(prev => new Map(prev).set(key, note));
+        startNote(note);
       }
     };
 
     const handleKeyUp = (event: KeyboardEvent) => {
       const key = event.key.toLowerCase();
-      if (keyboardMapping[key]) {
+      const note = pressedKeys.get(key);
+      if (note) {
         setPressedKeys(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(key);
-          return newSet;
-        });
-        setActiveKeys(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(keyboardMapping[key]);
-          return newSet;
+          const newMap = new Map(prev);
+          newMap.delete(key);
+          return newMap;
         });
+        stopNote(note);
       }
     };
 
@@ -75,39 +105,43 @@ export const Piano: React.FC<PianoProps> = ({ onNotePlay }) => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [pressedKeys]);
-
-  const playNote = async (note: string) => {
-    if (!synthRef.current) return;
-
-    // Start audio context if needed
-    if (Tone.context.state !== 'running') {
-      await Tone.start();
-    }
-
-    setActiveKeys(prev => new Set(prev).add(note));
-    synthRef.current.triggerAttackRelease(note, '8n');
-    onNotePlay(note);
-
-    // Remove active state after animation
-    setTimeout(() => {
-      setActiveKeys(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(note);
-        return newSet;
-      });
-    }, 150);
+  }, [pressedKeys, keyboardMapping, startNote, stopNote]);
+
+  // Scroll the octave reachable from the computer keyboard into the middle of the view
+  useEffect(() => {
+    const container = scrollRef.current;
+    const mappedNotes = new Set(Object.values(keyboardMapping));
+    const firstMapped = whiteKeys.find(key => mappedNotes.has(key.note));
+    if (!container || !firstMapped) return;
+    const octaveWidth = keyWidth * 8;
+    container.scrollTo({
+      left: firstMapped.whiteIndex * keyWidth - (container.clientWidth - octaveWidth) / 2,
+      behavior: 'smooth',
+    });
+  }, [keyboardMapping, keyWidth]);
+
+  const handleMouseDown = (note: string) => {
+    mouseNoteRef.current = note;
+    startNote(note);
   };
 
-  const handleKeyPress = (note: string) => {
-    playNote(note);
+  const handleMouseUp = () => {
+    if (!mouseNoteRef.current) return;
+    stopNote(mouseNoteRef.current);
+    mouseNoteRef.current = null;
   };
 
   const isKeyActive = (note: string) => {
-    return activeKeys.has(note) || (Object.values(keyboardMapping).includes(note) && 
-           pressedKeys.has(Object.keys(keyboardMapping).find(k => keyboardMapping[k] === note) || ''));
+    return highlightedNotes?.has(note);
   };
 
+  const getKeyboardKey = (note: string) => {
+    return Object.keys(keyboardMapping).find(k => keyboardMapping[k] === note);
+  };
+
+  const blackKeyWidth = Math.round(keyWidth * 0.65);
+  const showOctaveLabels = keyWidth >= 28;
+
   return (
     <Card className="p-6 bg-card/70 backdrop-blur-sm border-border/50">
       <div className="mb-6">
@@ -115,74 +149,126 @@ export const Piano: React.FC<PianoProps> = ({ onNotePlay }) => {
           Virtual Piano
         </h2>
         <p className="text-center text-muted-foreground text-sm">
-          Use your keyboard: A-K for white keys, W-E-T-Y-U for black keys
+          Use your keyboard: A-K for white keys, W-E-T-Y-U for black keys, Z/X to shift octave
         </p>
       </div>
 
-      <div className="flex justify-center">
-        <div className="relative">
+      <div className="flex flex-wrap items-center justify-center gap-6 mb-4">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          value={sound}
+          onValueChange={value => value && onSoundChange(value as PianoSound)}
+          aria-label="Piano sound"
+        >
+          <ToggleGroupItem value="synth">Synth</ToggleGroupItem>
+          <ToggleGroupItem value="sampled" className="gap-2">
+            {soundStatus === 'loading' && <Loader2 className="w-4 h-4 animate-spin" aria-label="Loading samples" />}
+            Grand piano
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => shiftOctave(-1)}
+            disabled={octave <= octaveBounds.min}
+            aria-label="Octave down"
+          >
+            <Minus className="w-4 h-4" />
+          </Button>
+          <span className="w-24 text-center text-sm font-semibold">Octave C{octave}</span>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => shiftOctave(1)}
+            disabled={octave >= octaveBounds.max}
+            aria-label="Octave up"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex items-center gap-2 w-48">
+          <ZoomIn className="w-4 h-4 text-muted-foreground" />
+          <Slider
+            value={[keyWidth]}
+            min={MIN_KEY_WIDTH}
+            max={MAX_KEY_WIDTH}
+            step={4}
+            onValueChange={([value]) => setKeyWidth(value)}
+            aria-label="Zoom"
+          />
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="overflow-x-auto pb-2">
+        <div className="relative h-40 mx-auto" style={{ width: whiteKeys.length * keyWidth }}>
           {/* White Keys */}
-          <div className="flex gap-1">
-            {whiteKeys.map((note, index) => {
-              const keyboardKey = Object.keys(keyboardMapping).find(k => keyboardMapping[k] === note);
-              return (
-                <button
-                  key={note}
-                  onMouseDown={() => handleKeyPress(note)}
-                  className={`
-                    relative w-12 h-40 bg-gradient-to-b from-white to-gray-100 
-                    border border-gray-300 rounded-b-lg transition-all duration-75
-                    hover:from-gray-50 hover:to-gray-200 hover:shadow-lg
-                    active:from-gray-200 active:to-gray-300
-                    ${isKeyActive(note) ? 'from-primary/20 to-primary/40 shadow-[0_0_20px_hsl(var(--primary)/0.5)] animate-key-press' : ''}
-                  `}
-                  style={{
-                    background: isKeyActive(note) ? 'linear-gradient(to bottom, hsl(var(--piano-active) / 0.3), hsl(var(--piano-active) / 0.6))' : undefined,
-                    boxShadow: isKeyActive(note) ? 'var(--shadow-active)' : 'var(--shadow-key)',
-                  }}
-                >
-                  <div className="absolute bottom-2 left-1/2 transform -translate-x-1/2 text-xs font-semibold text-gray-600">
-                    {keyboardKey?.toUpperCase()}
-                  </div>
-                </button>
-              );
-            })}
-          </div>
+          {whiteKeys.map(({ note, whiteIndex }) => {
+            const keyboardKey = getKeyboardKey(note);
+            return (
+              <button
+                key={note}
+                onMouseDown={() => handleMouseDown(note)}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={handleMouseUp}
+                className={`
+                  absolute top-0 h-40 bg-gradient-to-b from-white to-gray-100
+                  border border-gray-300 rounded-b-lg transition-all duration-75
+                  hover:from-gray-50 hover:to-gray-200 hover:shadow-lg
+                  active:from-gray-200 active:to-gray-300
+                  ${isKeyActive(note) ? 'from-primary/20 to-primary/40 shadow-[0_0_20px_hsl(var(--primary)/0.5)] animate-key-press' : ''}
+                `}
+                style={{
+                  left: whiteIndex * keyWidth,
+                  width: keyWidth - 2,
+                  background: isKeyActive(note) ? 'linear-gradient(to bottom, hsl(var(--piano-active) / 0.3), hsl(var(--piano-active) / 0.6))' : undefined,
+                  boxShadow: isKeyActive(note) ? 'var(--shadow-active)' : 'var(--shadow-key)',
+                }}
+                aria-label={note}
+              >
+                <div className="absolute bottom-2 left-1/2 transform -translate-x-1/2 flex flex-col items-center text-xs font-semibold text-gray-600">
+                  <span>{keyboardKey?.toUpperCase()}</span>
+                  {showOctaveLabels && note.startsWith('C') && (
+                    <span className="text-[10px] font-normal text-gray-400">{note}</span>
+                  )}
+                </div>
+              </button>
+            );
+          })}
 
           {/* Black Keys */}
-          <div className="absolute top-0 flex gap-1">
-            {blackKeys.map((note, index) => {
-              if (!note) {
-                return <div key={index} className="w-12"></div>;
-              }
-              
-              const keyboardKey = Object.keys(keyboardMapping).find(k => keyboardMapping[k] === note);
-              return (
-                <button
-                  key={note}
-                  onMouseDown={() => handleKeyPress(note)}
-                  className={`
-                    relative w-8 h-24 bg-gradient-to-b from-gray-800 to-black 
-                    border border-gray-600 rounded-b-lg transition-all duration-75 ml-2
-                    hover:from-gray-700 hover:to-gray-900 hover:shadow-lg
-                    active:from-gray-600 active:to-gray-800
-                    ${isKeyActive(note) ? 'from-accent/40 to-accent/70 shadow-[0_0_20px_hsl(var(--accent)/0.7)] animate-key-press' : ''}
-                  `}
-                  style={{
-                    background: isKeyActive(note) ? 'linear-gradient(to bottom, hsl(var(--accent) / 0.6), hsl(var(--accent) / 0.9))' : undefined,
-                    boxShadow: isKeyActive(note) ? 'var(--shadow-active)' : 'var(--shadow-key)',
-                    marginLeft: index === 0 ? '2rem' : '1rem',
-                  }}
-                >
-                  <div className="absolute bottom-1 left-1/2 transform -translate-x-1/2 text-xs font-semibold text-white">
-                    {keyboardKey?.toUpperCase()}
-                  </div>
-                </button>
-              );
-            })}
-          </div>
+          {blackKeys.map(({ note, whiteIndex }) => {
+            const keyboardKey = getKeyboardKey(note);
+            return (
+              <button
+                key={note}
+                onMouseDown={() => handleMouseDown(note)}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={handleMouseUp}
+                className={`
+                  absolute top-0 z-10 h-24 bg-gradient-to-b from-gray-800 to-black
+                  border border-gray-600 rounded-b-lg transition-all duration-75
+                  hover:from-gray-700 hover:to-gray-900 hover:shadow-lg
+                  active:from-gray-600 active:to-gray-800
+                  ${isKeyActive(note) ? 'from-accent/40 to-accent/70 shadow-[0_0_20px_hsl(var(--accent)/0.7)] animate-key-press' : ''}
+                `}
+                style={{
+                  left: (whiteIndex + 1) * keyWidth - blackKeyWidth / 2 - 1,
+                  width: blackKeyWidth,
+                  background: isKeyActive(note) ? 'linear-gradient(to bottom, hsl(var(--accent) / 0.6), hsl(var(--accent) / 0.9))' : undefined,
+                  boxShadow: isKeyActive(note) ? 'var(--shadow-active)' : 'var(--shadow-key)',
+                }}
+                aria-label={note}
+              >
+                <div className="absolute bottom-1 left-1/2 transform -translate-x-1/2 text-xs font-semibold text-white">
+                  {keyboardKey?.toUpperCase()}
+                </div>
+              </button>
+            );
+          })}
         </div>
       </div>
     </Card>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,454 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useEditHistory } from '@/hooks/use-edit-history';
+import { parseDrumNote } from '@/lib/instruments';
+import {
+  deleteNotes,
+  findNotesInRange,
+  findRowIndex,
+  getGridMs,
+  getRollRows,
+  MIN_NOTE_MS,
+  moveNotes,
+  resizeNotes,
+  SNAP_DIVISIONS,
+  snapTime,
+  snapTimeDown,
+  type SnapDivision,
+} from '@/lib/piano-roll';
+import { isQuantized, quantizeNotes, restoreTiming, type QuantizeOptions } from '@/lib/quantize';
+import { getBarMs, getBeatMs, toBarsAndBeats, type Tempo } from '@/lib/tempo';
+import {
+  DEFAULT_NOTE_DURATION,
+  DEFAULT_VELOCITY,
+  getRecordingDuration,
+  type Instrument,
+  type NoteEvent,
+} from '@/lib/recording';
+import { MousePointer2, Pencil, Redo2, Trash2, Undo2, ZoomIn } from 'lucide-react';
+import { QuantizeSettings } from './QuantizeSettings';
+
+interface PianoRollProps {
+  notes: NoteEvent[];
+  onChange: (notes: NoteEvent[]) => void;
+  // Lays out the bars and the snap grid
+  tempo: Tempo;
+  // Shows only this instrument's rows, for editing a single track
+  instrument?: Instrument;
+}
+
+type RollTool = 'select' | 'draw';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// What the pointer is doing while a button is held on the grid
+type RollDrag =
+  | { mode: 'move'; origin: Point; index: number; dt: number; dRow: number }
+  | { mode: 'resize'; origin: Point; index: number; dDuration: number }
+  | { mode: 'draw'; note: NoteEvent }
+  | { mode: 'select'; origin: Point; current: Point; additive: boolean };
+
+const ROW_HEIGHT = 16;
+const RULER_HEIGHT = 20;
+const GUTTER_WIDTH = 64;
+// Pixels at the right end of a note that resize it rather than move it
+const RESIZE_HANDLE_PX = 6;
+// Drum hits and very short notes still get something to click
+const MIN_NOTE_PX = 4;
+// Pixels per second
+const ZOOM_RANGE = { min: 25, max: 400 };
+const DEFAULT_ZOOM = 100;
+// Room to draw past the end of the take, in ms
+const TRAILING_SPACE = 4000;
+
+const SNAP_LABELS: { [division in SnapDivision]: string } = {
+  0: 'Off',
+  4: '1/4',
+  8: '1/8',
+  16: '1/16',
+  32: '1/32',
+};
+
+export const PianoRoll: React.FC<PianoRollProps> = ({ notes, onChange, tempo, instrument }) => {
+  const history = useEditHistory(notes, onChange);
+  const [tool, setTool] = useState<RollTool>('select');
+  const [division, setDivision] = useState<SnapDivision>(16);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  // Indices into notes
+  const [selection, setSelection] = useState<Set<number>>(new Set());
+  const [drag, setDrag] = useState<RollDrag | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // The last notes edited here; any other change is a different take
+  const editedRef = useRef(notes);
+
+  useEffect(() => {
+    if (notes !== editedRef.current) setSelection(new Set());
+  }, [notes]);
+
+  const rows = useMemo(() => getRollRows(notes, instrument), [notes, instrument]);
+  const pxPerMs = zoom / 1000;
+  const gridMs = getGridMs(division, tempo);
+  const beatPx = getBeatMs(tempo) * pxPerMs;
+  const barPx = getBarMs(tempo) * pxPerMs;
+  const minDuration = gridMs || MIN_NOTE_MS;
+  const width = (getRecordingDuration(notes) + TRAILING_SPACE) * pxPerMs;
+  const height = rows.length * ROW_HEIGHT;
+  const firstDrumRow = rows.findIndex(row => row.instrument === 'drums');
+
+  const preview = useMemo(() => {
+    switch (drag?.mode) {
+      case 'move':
+        return moveNotes(notes, selection, rows, drag.dt, drag.dRow);
+      case 'resize':
+        return resizeNotes(notes, selection, drag.dDuration, minDuration);
+      case 'draw':
+        return [...notes, drag.note];
+      default:
+        return notes;
+    }
+  }, [drag, notes, selection, rows, minDuration]);
+
+  const edit = (next: NoteEvent[], nextSelection: Set<number>) => {
+    editedRef.current = next;
+    history.apply(next);
+    setSelection(nextSelection);
+  };
+
+  const undo = () => {
+    history.undo();
+    setSelection(new Set());
+  };
+
+  const redo = () => {
+    history.redo();
+    setSelection(new Set());
+  };
+
+  const deleteSelection = () => {
+    if (selection.size > 0) edit(deleteNotes(notes, selection), new Set());
+  };
+
+  // Quantizing acts on the selection, or the whole take with nothing selected
+  const quantizeScope = selection.size > 0 ? selection : undefined;
+
+  const quantize = (options: QuantizeOptions) => {
+    edit(quantizeNotes(notes, options, tempo, quantizeScope), selection);
+  };
+
+  const restore = () => {
+    edit(restoreTiming(notes, quantizeScope), selection);
+  };
+
+  const toGridPoint = (event: React.PointerEvent): Point => {
+    const rect = gridRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const rowAt = (y: number) => Math.min(rows.length - 1, Math.max(0, Math.floor(y / ROW_HEIGHT)));
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    const point = toGridPoint(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const noteElement = (event.target as HTMLElement).closest<HTMLElement>('[data-note-index]');
+    if (noteElement) {
+      const index = Number(noteElement.dataset.noteIndex);
+      if (event.shiftKey && selection.has(index)) {
+        const next = new Set(selection);
+        next.delete(index);
+        setSelection(next);
+        return;
+      }
+      if (event.shiftKey) {
+        setSelection(new Set(selection).add(index));
+      } else if (!selection.has(index)) {
+        setSelection(new Set([index]));
+      }
+      const onHandle = event.clientX > noteElement.getBoundingClientRect().right - RESIZE_HANDLE_PX;
+      setDrag(onHandle
+        ? { mode: 'resize', origin: point, index, dDuration: 0 }
+        : { mode: 'move', origin: point, index, dt: 0, dRow: 0 });
+      return;
+    }
+
+    if (tool === 'draw') {
+      const row = rows[rowAt(point.y)];
+      setDrag({
+        mode: 'draw',
+        note: {
+          instrument: row.instrument,
+          note: row.note,
+          timestamp: snapTimeDown(point.x / pxPerMs, gridMs),
+          duration: gridMs || DEFAULT_NOTE_DURATION,
+          velocity: DEFAULT_VELOCITY,
+        },
+      });
+      return;
+    }
+
+    if (!event.shiftKey) setSelection(new Set());
+    setDrag({ mode: 'select', origin: point, current: point, additive: event.shiftKey });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const point = toGridPoint(event);
+
+    if (drag.mode === 'move') {
+      // Snap the grabbed note's start; the rest of the selection keeps its spacing
+      const grabbed = notes[drag.index];
+      const dx = (point.x - drag.origin.x) / pxPerMs;
+      const dt = snapTime(grabbed.timestamp + dx, gridMs) - grabbed.timestamp;
+      const dRow = Math.round((point.y - drag.origin.y) / ROW_HEIGHT);
+      setDrag({ ...drag, dt, dRow });
+    } else if (drag.mode === 'resize') {
+      const grabbed = notes[drag.index];
+      const end = grabbed.timestamp + grabbed.duration;
+      const dx = (point.x - drag.origin.x) / pxPerMs;
+      setDrag({ ...drag, dDuration: snapTime(end + dx, gridMs) - end });
+    } else if (drag.mode === 'draw') {
+      const end = snapTime(point.x / pxPerMs, gridMs);
+      setDrag({ ...drag, note: { ...drag.note, duration: Math.max(minDuration, end - drag.note.timestamp) } });
+    } else {
+      setDrag({ ...drag, current: point });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    setDrag(null);
+
+    if (drag.mode === 'move' && (drag.dt !== 0 || drag.dRow !== 0)) {
+      edit(preview, selection);
+    } else if (drag.mode === 'resize' && drag.dDuration !== 0) {
+      edit(preview, selection);
+    } else if (drag.mode === 'draw') {
+      edit(preview, new Set([notes.length]));
+    } else if (drag.mode === 'select') {
+      const found = findNotesInRange(notes, rows, {
+        start: Math.min(drag.origin.x, drag.current.x) / pxPerMs,
+        end: Math.max(drag.origin.x, drag.current.x) / pxPerMs,
+        firstRow: rowAt(Math.min(drag.origin.y, drag.current.y)),
+        lastRow: rowAt(Math.max(drag.origin.y, drag.current.y)),
+      });
+      setSelection(drag.additive ? new Set([...selection, ...found]) : found);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const key = event.key.toLowerCase();
+    const modifier = event.metaKey || event.ctrlKey;
+    if (modifier && key === 'z') {
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    } else if (modifier && key === 'y') {
+      redo();
+    } else if (modifier && key === 'a') {
+      setSelection(new Set(notes.map((_, i) => i)));
+    } else if (key === 'delete' || key === 'backspace') {
+      deleteSelection();
+    } else {
+      return;
+    }
+    // Keep shortcuts away from the instruments' keyboard handlers
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  const marquee = drag?.mode === 'select' ? {
+    left: Math.min(drag.origin.x, drag.current.x),
+    top: Math.min(drag.origin.y, drag.current.y),
+    width: Math.abs(drag.current.x - drag.origin.x),
+    height: Math.abs(drag.current.y - drag.origin.y),
+  } : null;
+
+  return (
+    <Card className="p-6 mt-6 bg-card/70 backdrop-blur-sm border-border/50">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Piano Roll
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={tool}
+            onValueChange={value => value && setTool(value as RollTool)}
+            aria-label="Tool"
+          >
+            <ToggleGroupItem value="select" aria-label="Select">
+              <MousePointer2 className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="draw" aria-label="Draw">
+              <Pencil className="w-4 h-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <Select value={String(division)} onValueChange={value => setDivision(Number(value) as SnapDivision)}>
+            <SelectTrigger className="w-24" aria-label="Snap">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SNAP_DIVISIONS.map(value => (
+                <SelectItem key={value} value={String(value)}>
+                  {SNAP_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2 w-36">
+            <ZoomIn className="w-4 h-4 shrink-0 text-muted-foreground" />
+            <Slider
+              value={[zoom]}
+              min={ZOOM_RANGE.min}
+              max={ZOOM_RANGE.max}
+              step={5}
+              onValueChange={([value]) => setZoom(value)}
+              aria-label="Zoom"
+            />
+          </div>
+          <QuantizeSettings
+            hasSelection={selection.size > 0}
+            canQuantize={notes.length > 0}
+            canRestore={isQuantized(notes, quantizeScope)}
+            onQuantize={quantize}
+            onRestore={restore}
+          />
+          <Button onClick={undo} variant="outline" size="icon" disabled={!history.canUndo} aria-label="Undo">
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button onClick={redo} variant="outline" size="icon" disabled={!history.canRedo} aria-label="Redo">
+            <Redo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            onClick={deleteSelection}
+            variant="outline"
+            size="icon"
+            disabled={selection.size === 0}
+            aria-label="Delete selected notes"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className="overflow-auto max-h-96 rounded-md border border-border/50 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+      >
+        <div
+          className="sticky top-0 z-30 flex bg-card border-b border-border/50"
+          style={{ width: GUTTER_WIDTH + width, height: RULER_HEIGHT }}
+        >
+          <div className="sticky left-0 z-10 shrink-0 bg-card border-r border-border/50" style={{ width: GUTTER_WIDTH }} />
+          <div className="relative shrink-0" style={{ width }}>
+            {Array.from({ length: Math.ceil(width / barPx) }, (_, bar) => (
+              <span
+                key={bar}
+                className="absolute inset-y-0 pl-1 border-l border-border text-[10px] leading-5 text-muted-foreground"
+                style={{ left: bar * barPx }}
+              >
+                {bar + 1}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex" style={{ width: GUTTER_WIDTH + width }}>
+          <div className="sticky left-0 z-20 shrink-0 bg-card border-r border-border/50" style={{ width: GUTTER_WIDTH }}>
+            {rows.map(row => (
+              <div
+                key={row.note}
+                className={`px-2 text-[10px] leading-4 truncate ${row.isBlack ? 'bg-muted/60' : ''}`}
+                style={{ height: ROW_HEIGHT }}
+              >
+                {row.label}
+              </div>
+            ))}
+          </div>
+
+          <div
+            ref={gridRef}
+            className={`relative shrink-0 touch-none select-none ${tool === 'draw' ? 'cursor-crosshair' : ''}`}
+            style={{
+              width,
+              height,
+              // Bar lines over beat lines
+              backgroundImage: [
+                'linear-gradient(to right, hsl(var(--muted-foreground) / 0.5) 1px, transparent 1px)',
+                'linear-gradient(to right, hsl(var(--border)) 1px, transparent 1px)',
+              ].join(', '),
+              backgroundSize: `${barPx}px 100%, ${beatPx}px 100%`,
+            }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => setDrag(null)}
+          >
+            {rows.map((row, i) => row.isBlack && (
+              <div
+                key={row.note}
+                className="absolute inset-x-0 bg-muted/30 pointer-events-none"
+                style={{ top: i * ROW_HEIGHT, height: ROW_HEIGHT }}
+              />
+            ))}
+            {firstDrumRow > 0 && (
+              <div
+                className="absolute inset-x-0 border-t border-border pointer-events-none"
+                style={{ top: firstDrumRow * ROW_HEIGHT }}
+              />
+            )}
+
+            {preview.map((note, i) => {
+              const row = findRowIndex(rows, note);
+              if (row < 0) return null;
+              const drum = note.instrument === 'drums' ? parseDrumNote(note.note) : undefined;
+              const { bar, beat } = toBarsAndBeats(note.timestamp, tempo);
+              return (
+                <div
+                  key={i}
+                  data-note-index={i}
+                  title={`${drum?.name ?? note.note}, bar ${bar} beat ${beat}`}
+                  className={`
+                    absolute rounded-sm border
+                    ${drum ? `bg-gradient-to-r ${drum.color}` : 'bg-primary'}
+                    ${selection.has(i) ? 'border-white ring-1 ring-white z-10' : 'border-black/30'}
+                    ${tool === 'select' ? 'cursor-move' : ''}
+                  `}
+                  style={{
+                    left: note.timestamp * pxPerMs,
+                    top: row * ROW_HEIGHT + 1,
+                    width: Math.max(note.duration * pxPerMs, MIN_NOTE_PX),
+                    height: ROW_HEIGHT - 2,
+                    opacity: 0.4 + note.velocity * 0.6,
+                  }}
+                >
+                  <div className="absolute inset-y-0 right-0 cursor-ew-resize" style={{ width: RESIZE_HANDLE_PX }} />
+                </div>
+              );
+            })}
+
+            {marquee && (
+              <div className="absolute border border-primary bg-primary/10 pointer-events-none" style={marquee} />
+            )}
+          </div>
+        </div>
+      </div>
+
+      <p className="mt-3 text-xs text-muted-foreground">
+        Drag notes to move them or their right edge to resize. Shift-click adds to the selection; Delete removes it.
+      </p>
+    </Card>
+  );
+};
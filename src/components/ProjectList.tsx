@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import type { useProjectLibrary } from '@/hooks/use-project-library';
+import { formatBytes, type Project } from '@/lib/projects';
+import { countArrangementNotes } from '@/lib/tracks';
+import { Copy, Plus, Trash2 } from 'lucide-react';
+
+interface ProjectListProps {
+  library: ReturnType<typeof useProjectLibrary>;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+}
+
+// Renames when editing is done rather than on every keystroke
+const ProjectNameInput: React.FC<{ name: string; onRename: (name: string) => void }> = ({ name, onRename }) => {
+  const [draft, setDraft] = useState(name);
+
+  useEffect(() => setDraft(name), [name]);
+
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (trimmed && trimmed !== name) {
+      onRename(trimmed);
+    } else {
+      setDraft(name);
+    }
+  };
+
+  return (
+    <Input
+      value={draft}
+      onChange={event => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={event => {
+        if (event.key === 'Enter') event.currentTarget.blur();
+      }}
+      className="h-8"
+      aria-label="Project name"
+    />
+  );
+};
+
+const describeProject = (project: Project) => {
+  const tracks = project.tracks.length === 1 ? '1 track' : `${project.tracks.length} tracks`;
+  return `${tracks}, ${countArrangementNotes(project.tracks)} notes · ${new Date(project.updatedAt).toLocaleString()}`;
+};
+
+export const ProjectList: React.FC<ProjectListProps> = ({ library, onOpen, onCreate }) => {
+  const { projects, current, storage } = library;
+
+  return (
+    <Card className="p-6 bg-card/70 backdrop-blur-sm border-border/50">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            Projects
+          </h3>
+          <p className="text-sm text-muted-foreground">Projects are saved in this browser as you work.</p>
+        </div>
+        <Button onClick={onCreate} className="gap-2" disabled={!library.isLoaded}>
+          <Plus className="w-4 h-4" />
+          New project
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {projects.map(project => {
+          const isCurrent = project.id === current?.id;
+          return (
+            <div
+              key={project.id}
+              className={`flex items-center gap-3 rounded-md border p-2 ${
+                isCurrent ? 'border-primary bg-primary/10' : 'border-border/50'
+              }`}
+            >
+              <div className="flex-1 min-w-0 space-y-1">
+                <ProjectNameInput name={project.name} onRename={name => library.rename(project.id, name)} />
+                <p className="text-xs text-muted-foreground truncate">{describeProject(project)}</p>
+              </div>
+              <Button onClick={() => onOpen(project.id)} variant="outline" size="sm">
+                Open
+              </Button>
+              <Button
+                onClick={() => library.duplicate(project.id)}
+                variant="ghost"
+                size="icon"
+                aria-label={`Duplicate ${project.name}`}
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="icon" aria-label={`Delete ${project.name}`}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete {project.name}?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Its tracks and settings will be removed from this browser.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => library.remove(project.id)}>Delete</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          );
+        })}
+      </div>
+
+      {storage && storage.quota > 0 && (
+        <div className="space-y-2 mt-6">
+          <Progress value={(storage.usage / storage.quota) * 100} />
+          <p className="text-xs text-muted-foreground">
+            {formatBytes(storage.usage)} of {formatBytes(storage.quota)} browser storage used
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { DEFAULT_QUANTIZE_OPTIONS, QUANTIZE_GRIDS, type QuantizeOptions } from '@/lib/quantize';
+import { Magnet, RotateCcw } from 'lucide-react';
+
+interface QuantizeSettingsProps {
+  // Whether the buttons act on selected notes rather than the whole take
+  hasSelection: boolean;
+  canQuantize: boolean;
+  canRestore: boolean;
+  onQuantize: (options: QuantizeOptions) => void;
+  onRestore: () => void;
+}
+
+export const QuantizeSettings: React.FC<QuantizeSettingsProps> = ({
+  hasSelection,
+  canQuantize,
+  canRestore,
+  onQuantize,
+  onRestore,
+}) => {
+  const [options, setOptions] = useState<QuantizeOptions>(DEFAULT_QUANTIZE_OPTIONS);
+  const target = hasSelection ? 'selection' : 'take';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Magnet className="w-4 h-4" />
+          Quantize
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="quantize-grid">Grid</Label>
+          <Select
+            value={String(QUANTIZE_GRIDS.indexOf(options.grid))}
+            onValueChange={value => setOptions({ ...options, grid: QUANTIZE_GRIDS[Number(value)] })}
+          >
+            <SelectTrigger id="quantize-grid">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUANTIZE_GRIDS.map((grid, i) => (
+                <SelectItem key={grid.label} value={String(i)}>
+                  {grid.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Strength</Label>
+            <span className="text-sm text-muted-foreground">{Math.round(options.strength * 100)}%</span>
+          </div>
+          <Slider
+            value={[options.strength]}
+            min={0}
+            max={1}
+            step={0.01}
+            onValueChange={([strength]) => setOptions({ ...options, strength })}
+            aria-label="Quantize strength"
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Swing</Label>
+            <span className="text-sm text-muted-foreground">
+              {options.grid.triplet ? 'Off' : `${Math.round(options.swing * 100)}%`}
+            </span>
+          </div>
+          <Slider
+            value={[options.swing]}
+            min={0}
+            max={1}
+            step={0.01}
+            disabled={options.grid.triplet}
+            onValueChange={([swing]) => setOptions({ ...options, swing })}
+            aria-label="Quantize swing"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={() => onQuantize(options)} className="flex-1" disabled={!canQuantize}>
+            Quantize {target}
+          </Button>
+          <Button
+            onClick={onRestore}
+            variant="outline"
+            size="icon"
+            disabled={!canRestore}
+            aria-label={`Restore played timing of the ${target}`}
+            title="Restore played timing"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const ACCEPTED_FILES = '.json,application/json,.mid,.midi,audio/midi';
+
+interface RecordingImportButtonProps {
+  onFile: (file: File) => void;
+  disabled?: boolean;
+}
+
+export const RecordingImportButton: React.FC<RecordingImportButtonProps> = ({ onFile, disabled }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onFile(file);
+    // Allow picking the same file again
+    event.target.value = '';
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_FILES}
+        className="hidden"
+        onChange={handleChange}
+      />
+      <Button
+        onClick={() => inputRef.current?.click()}
+        variant="outline"
+        disabled={disabled}
+        className="flex items-center gap-2"
+      >
+        <Upload className="w-4 h-4" />
+        Import
+      </Button>
+    </>
+  );
+};
+
+interface RecordingDropZoneProps {
+  onFile: (file: File) => void;
+  disabled?: boolean;
+  className?: string;
+  children: React.ReactNode;
+}
+
+export const RecordingDropZone: React.FC<RecordingDropZoneProps> = ({ onFile, disabled, className, children }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const dragDepth = useRef(0);
+
+  const hasFiles = (event: React.DragEvent) => event.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = (event: React.DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    event.preventDefault();
+    dragDepth.current += 1;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (disabled || !hasFiles(event)) return;
+    dragDepth.current = 0;
+    setIsDragging(false);
+    // A nested drop target, such as a drum pad, already took the file
+    if (event.defaultPrevented) return;
+    event.preventDefault();
+    const file = event.dataTransfer.files[0];
+    if (file) onFile(file);
+  };
+
+  return (
+    <div
+      className={cn('relative', className)}
+      onDragEnter={handleDragEnter}
+      onDragLeave={handleDragLeave}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
+      {children}
+
+      {isDragging && (
+        <div className="pointer-events-none fixed inset-0 z-50 flex items-center justify-center border-2 border-dashed border-primary bg-background/80 backdrop-blur-sm">
+          <div className="flex items-center gap-2 text-lg font-semibold text-primary">
+            <Upload className="w-5 h-5" />
+            Drop a recording or MIDI file to import it
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
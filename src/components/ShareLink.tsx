@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useToast } from '@/hooks/use-toast';
+import type { DrumKitId } from '@/lib/drum-kits';
+import type { NoteEvent } from '@/lib/recording';
+import { encodeShareLink, getShareUrl, MAX_SHARE_URL_LENGTH } from '@/lib/share-link';
+import type { SynthPatch } from '@/lib/synth-patch';
+import type { Tempo } from '@/lib/tempo';
+import { Check, Copy, Link2, TriangleAlert } from 'lucide-react';
+
+interface ShareLinkProps {
+  notes: NoteEvent[];
+  drumKit: DrumKitId;
+  tempo: Tempo;
+  synthPatch: SynthPatch;
+}
+
+export const ShareLink: React.FC<ShareLinkProps> = ({ notes, drumKit, tempo, synthPatch }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Encode while the popover is open, so the link follows edits made meanwhile
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setCopied(false);
+    encodeShareLink({ notes, drumKit, tempo, synthPatch })
+      .then(payload => {
+        if (!cancelled) setUrl(getShareUrl(payload));
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setOpen(false);
+        toast({
+          variant: 'destructive',
+          title: 'Could not create a share link',
+          description: error instanceof Error ? error.message : 'Encoding failed.',
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, notes, drumKit, tempo, synthPatch, toast]);
+
+  const handleCopy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      toast({
+        variant: 'destructive',
+        title: 'Could not copy the link',
+        description: 'Select the link and copy it yourself.',
+      });
+    }
+  };
+
+  const isTooLong = url !== null && url.length > MAX_SHARE_URL_LENGTH;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Link2 className="w-4 h-4" />
+          Share link
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <Label htmlFor="share-link-url">Anyone with this link can play the recording</Label>
+        <div className="flex gap-2">
+          <Input
+            id="share-link-url"
+            readOnly
+            value={url ?? ''}
+            placeholder="Creating link..."
+            onFocus={event => event.target.select()}
+          />
+          <Button onClick={handleCopy} variant="outline" size="icon" disabled={!url} aria-label="Copy link">
+            {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+          </Button>
+        </div>
+        {isTooLong && (
+          <p className="flex gap-2 text-xs text-amber-500">
+            <TriangleAlert className="w-4 h-4 shrink-0" />
+            This take makes a {url.length.toLocaleString()}-character link, which some chat apps and
+            browsers cut short. Share a shorter take or download the recording instead.
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
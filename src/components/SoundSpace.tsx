@@ -1,79 +1,445 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Piano } from './Piano';
+import { PianoRoll } from './PianoRoll';
 import { Drums } from './Drums';
-import { Play, Square, Download, Piano as PianoIcon, Drum } from 'lucide-react';
+import { Play, Pause, Square, Download, Piano as PianoIcon, Drum } from 'lucide-react';
+import { AudioExport } from './AudioExport';
+import { EffectsRack } from './EffectsRack';
+import { MidiExport } from './MidiExport';
+import { Looper } from './Looper';
+import { MetronomeSettings } from './MetronomeSettings';
+import { MidiSettings } from './MidiSettings';
+import { Mixer } from './Mixer';
+import { RecordingDropZone, RecordingImportButton } from './RecordingImport';
+import { ShareLink } from './ShareLink';
+import { StepSequencer } from './StepSequencer';
+import { SynthDesigner } from './SynthDesigner';
+import { TrackList } from './TrackList';
+import { VoiceSettings } from './VoiceSettings';
+import { useDrumKitSamples } from '@/hooks/use-drum-kit-samples';
+import { useLiveInstruments } from '@/hooks/use-live-instruments';
+import { useLooper } from '@/hooks/use-looper';
+import { useMetronome } from '@/hooks/use-metronome';
+import { useMidiAccess } from '@/hooks/use-midi-access';
+import { useMidiInput } from '@/hooks/use-midi-input';
+import { useMidiOutput } from '@/hooks/use-midi-output';
+import { useMixer } from '@/hooks/use-mixer';
+import { usePadSamples } from '@/hooks/use-pad-samples';
+import { usePianoSound } from '@/hooks/use-piano-sound';
+import { usePlayback } from '@/hooks/use-playback';
+import type { useProjectLibrary } from '@/hooks/use-project-library';
+import { useRecordingImport } from '@/hooks/use-recording-import';
+import { useStepSequencer } from '@/hooks/use-step-sequencer';
+import { useSynthPresets } from '@/hooks/use-synth-presets';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_DRUM_KIT, type DrumKitId } from '@/lib/drum-kits';
+import { DEFAULT_INSTRUMENT_EFFECTS, type EffectSlot, type InstrumentEffects } from '@/lib/effects';
+import type { InstrumentOptions, PianoOptions } from '@/lib/instruments';
+import type { Instrument, NoteEvent } from '@/lib/recording';
+import { downloadBlob } from '@/lib/download';
+import { createRecordingFile, type RecordingFile } from '@/lib/recording-file';
+import { patternToNotes } from '@/lib/step-sequencer';
+import { DEFAULT_SYNTH_PATCH, type SynthPatch } from '@/lib/synth-patch';
+import { DEFAULT_TEMPO, type Tempo } from '@/lib/tempo';
+import { countArrangementNotes, createTakeTracks, mixdownNotes, type Track } from '@/lib/tracks';
+import { DEFAULT_VOICE_OPTIONS, type VoiceOptions } from '@/lib/voice-manager';
+import {
+  DEFAULT_DRUM_MAPPING,
+  DEFAULT_ROUTING,
+  routeMidiNote,
+  type InstrumentRouting,
+  type MidiDrumMapping,
+  type MidiNoteMessage,
+} from '@/lib/web-midi';
 
-export type Instrument = 'piano' | 'drums';
+// Which part of the studio the current route shows
+export type StudioView = 'editor' | 'play' | 'settings';
 
-export interface NoteEvent {
-  instrument: Instrument;
-  note: string;
-  timestamp: number;
+interface SoundSpaceProps {
+  // Null keeps the studio running, e.g. so MIDI stays connected, without showing it
+  view: StudioView | null;
+  library: ReturnType<typeof useProjectLibrary>;
+  // Play the project as soon as it is open, e.g. after following a share link
+  autoplay?: boolean;
+  onAutoplay?: () => void;
 }
 
-const SoundSpace = () => {
+const SoundSpace = ({ view, library, autoplay = false, onAutoplay }: SoundSpaceProps) => {
+  const { toast } = useToast();
   const [activeInstrument, setActiveInstrument] = useState<Instrument>('piano');
   const [isRecording, setIsRecording] = useState(false);
-  const [recordedNotes, setRecordedNotes] = useState<NoteEvent[]>([]);
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null);
+  // Notes of the take being recorded, which become tracks when it stops
+  const [takeNotes, setTakeNotes] = useState<NoteEvent[]>([]);
+  const [drumMapping, setDrumMapping] = useState<MidiDrumMapping>(DEFAULT_DRUM_MAPPING);
+  const [routing, setRouting] = useState<InstrumentRouting>(DEFAULT_ROUTING);
+  const [pianoVoices, setPianoVoices] = useState<VoiceOptions>(DEFAULT_VOICE_OPTIONS);
+  const [synthPatch, setSynthPatch] = useState<SynthPatch>(DEFAULT_SYNTH_PATCH);
+  const [drumKit, setDrumKit] = useState<DrumKitId>(DEFAULT_DRUM_KIT);
+  const [effects, setEffects] = useState<InstrumentEffects>(DEFAULT_INSTRUMENT_EFFECTS);
+  // The kit the first track was recorded with, which playback and export use
+  const [recordingDrumKit, setRecordingDrumKit] = useState<DrumKitId>(DEFAULT_DRUM_KIT);
+  // The tempo the first track was played to, which later tracks follow
+  const [recordingTempo, setRecordingTempo] = useState<Tempo>(DEFAULT_TEMPO);
+  // The synth patch the first track was played with, so later edits don't change how takes sound
+  const [recordingSynthPatch, setRecordingSynthPatch] = useState<SynthPatch>(DEFAULT_SYNTH_PATCH);
+  // Mirrors isRecording for handlers bound outside React's render cycle
+  const isRecordingRef = useRef(false);
   const recordingStartTime = useRef<number>(0);
+  // Note-on timestamps of notes that are still held, keyed by note
+  const heldNotes = useRef<Map<string, number>>(new Map());
+  // Where each held MIDI key was played, keyed by channel and note, so its note-off
+  // goes to the same voice even if the active instrument changes meanwhile
+  const heldMidiNotes = useRef<Map<string, { instrument: Instrument; note: string }>>(new Map());
+  const midiAccess = useMidiAccess();
+  const metronome = useMetronome();
+  const { start: startMetronome, stop: stopMetronome, setSettings: setMetronomeSettings } = metronome;
+  const mixer = useMixer();
+  const { setSettings: setMixerSettings } = mixer;
+  const midiOutput = useMidiOutput(midiAccess.access);
+  const pianoSound = usePianoSound();
+  const { setSound: setPianoSound } = pianoSound;
+  const synthPresets = useSynthPresets();
+  const { current: currentProject, autosave } = library;
+  // The project whose content was last loaded into the page
+  const loadedProjectId = useRef<string | null>(null);
+  const piano = useMemo<PianoOptions>(
+    () => ({ voices: pianoVoices, samples: pianoSound.samples, patch: synthPatch }),
+    [pianoVoices, pianoSound.samples, synthPatch],
+  );
+  const recordingPiano = useMemo<PianoOptions>(
+    () => ({ ...piano, patch: recordingSynthPatch }),
+    [piano, recordingSynthPatch],
+  );
+  const resetDrumKit = useCallback(() => setDrumKit(DEFAULT_DRUM_KIT), []);
+  const liveDrums = useDrumKitSamples(drumKit, resetDrumKit);
+  const recordingDrums = useDrumKitSamples(recordingDrumKit);
+  const padSamples = usePadSamples();
+  const liveInstruments = useMemo<InstrumentOptions>(
+    () => ({ piano, drumSamples: liveDrums.samples, padSamples: padSamples.voices, effects }),
+    [piano, liveDrums.samples, padSamples.voices, effects],
+  );
+  const recordingInstruments = useMemo<InstrumentOptions>(
+    () => ({ piano: recordingPiano, drumSamples: recordingDrums.samples, padSamples: padSamples.voices, effects }),
+    [recordingPiano, recordingDrums.samples, padSamples.voices, effects],
+  );
+  const live = useLiveInstruments(routing, midiOutput.output, liveInstruments);
+  const playback = usePlayback(tracks, routing, midiOutput.output, recordingInstruments);
+  const sequencer = useStepSequencer(routing, midiOutput.output, liveInstruments);
+  const looper = useLooper(metronome.settings.tempo, routing, midiOutput.output, liveInstruments);
+  const { play: playPlayback, stop: stopPlayback } = playback;
+  const { start: startSequencer, stop: stopSequencer } = sequencer;
+  const {
+    start: startLooper,
+    stop: stopLooper,
+    record: recordLoop,
+    noteOn: looperNoteOn,
+    noteOff: looperNoteOff,
+  } = looper;
+  const { noteOn: liveNoteOn, noteOff: liveNoteOff } = live;
+  const selectedTrack = tracks.find(track => track.id === selectedTrackId) ?? tracks[0];
+  const noteCount = countArrangementNotes(tracks);
+  const mixdown = useMemo(() => mixdownNotes(tracks), [tracks]);
 
-  const handleStartRecording = useCallback(() => {
-    setIsRecording(true);
-    setRecordedNotes([]);
-    recordingStartTime.current = Date.now();
+  const closeHeldNote = useCallback((note: string, releasedAt: number) => {
+    const timestamp = heldNotes.current.get(note);
+    if (timestamp === undefined) return;
+    heldNotes.current.delete(note);
+    setTakeNotes(prev => prev.map(event => (
+      event.note === note && event.timestamp === timestamp
+        ? { ...event, duration: releasedAt - timestamp }
+        : event
+    )));
   }, []);
 
+  const handleStartRecording = useCallback(async () => {
+    stopSequencer();
+    stopLooper();
+    stopPlayback();
+    setIsRecording(true);
+    setTakeNotes([]);
+    // The first track sets the kit, tempo and patch; later ones are recorded over it
+    const isOverdub = tracks.length > 0;
+    const tempo = isOverdub ? recordingTempo : metronome.settings.tempo;
+    if (!isOverdub) {
+      setRecordingDrumKit(drumKit);
+      setRecordingTempo(tempo);
+      setRecordingSynthPatch(synthPatch);
+    }
+    heldNotes.current.clear();
+    // Nothing is captured until the count-in is over; notes played before the start are not recorded
+    isRecordingRef.current = true;
+    recordingStartTime.current = Infinity;
+    const start = await startMetronome(tempo);
+    if (!isRecordingRef.current) return;
+    recordingStartTime.current = start.timestamp;
+    if (isOverdub) playPlayback(start.time);
+  }, [
+    stopSequencer,
+    stopLooper,
+    stopPlayback,
+    tracks.length,
+    recordingTempo,
+    metronome.settings.tempo,
+    drumKit,
+    synthPatch,
+    startMetronome,
+    playPlayback,
+  ]);
+
   const handleStopRecording = useCallback(() => {
+    stopMetronome();
+    stopPlayback();
     setIsRecording(false);
-  }, []);
+    isRecordingRef.current = false;
+    const stoppedAt = Date.now() - recordingStartTime.current;
+    [...heldNotes.current.keys()].forEach(note => closeHeldNote(note, stoppedAt));
+  }, [stopMetronome, stopPlayback, closeHeldNote]);
+
+  // Once a take has stopped and its held notes are closed, add it to the arrangement
+  useEffect(() => {
+    if (isRecording || takeNotes.length === 0) return;
+    const takeTracks = createTakeTracks(takeNotes, tracks);
+    setTracks([...tracks, ...takeTracks]);
+    setSelectedTrackId(takeTracks[0].id);
+    setTakeNotes([]);
+  }, [isRecording, takeNotes, tracks]);
 
-  const handleNotePlay = useCallback((note: string) => {
-    if (isRecording) {
+  const reportAudioError = useCallback((error: unknown) => {
+    toast({
+      variant: 'destructive',
+      title: 'Could not play the note',
+      description: error instanceof Error ? error.message : 'The audio could not be started.',
+    });
+  }, [toast]);
+
+  const handleNoteOn = useCallback((instrument: Instrument, note: string, velocity: number) => {
+    liveNoteOn(instrument, note, velocity).catch(reportAudioError);
+    looperNoteOn(instrument, note, velocity);
+    const timestamp = Date.now() - recordingStartTime.current;
+    if (isRecordingRef.current && timestamp >= 0) {
       const noteEvent: NoteEvent = {
-        instrument: activeInstrument,
+        instrument,
         note,
-        timestamp: Date.now() - recordingStartTime.current,
+        timestamp,
+        duration: 0,
+        velocity,
       };
-      setRecordedNotes(prev => [...prev, noteEvent]);
+      heldNotes.current.set(note, noteEvent.timestamp);
+      setTakeNotes(prev => [...prev, noteEvent]);
+    }
+  }, [liveNoteOn, looperNoteOn, reportAudioError]);
+
+  const handleNoteOff = useCallback((instrument: Instrument, note: string) => {
+    liveNoteOff(instrument, note).catch(reportAudioError);
+    looperNoteOff(note);
+    if (isRecordingRef.current) {
+      closeHeldNote(note, Date.now() - recordingStartTime.current);
+    }
+  }, [liveNoteOff, looperNoteOff, closeHeldNote, reportAudioError]);
+
+  const handleMidiMessage = useCallback((message: MidiNoteMessage) => {
+    const key = `${message.channel}:${message.note}`;
+    if (message.type === 'noteOn') {
+      const target = routeMidiNote(message, activeInstrument, drumMapping);
+      if (!target) return;
+      heldMidiNotes.current.set(key, target);
+      handleNoteOn(target.instrument, target.note, message.velocity / 127);
+      return;
     }
-  }, [isRecording, activeInstrument]);
+    const target = heldMidiNotes.current.get(key) ?? routeMidiNote(message, activeInstrument, drumMapping);
+    heldMidiNotes.current.delete(key);
+    if (target) handleNoteOff(target.instrument, target.note);
+  }, [activeInstrument, drumMapping, handleNoteOn, handleNoteOff]);
+
+  const midiInput = useMidiInput(midiAccess.access, handleMidiMessage);
+
+  const handlePianoNoteOn = useCallback((note: string, velocity: number) => handleNoteOn('piano', note, velocity), [handleNoteOn]);
+  const handlePianoNoteOff = useCallback((note: string) => handleNoteOff('piano', note), [handleNoteOff]);
+  const handleDrumNoteOn = useCallback((note: string, velocity: number) => handleNoteOn('drums', note, velocity), [handleNoteOn]);
+  const handleDrumNoteOff = useCallback((note: string) => handleNoteOff('drums', note), [handleNoteOff]);
+
+  const highlightedPianoNotes = useMemo(
+    () => new Set([...live.activePianoNotes, ...playback.activePianoNotes, ...looper.activePianoNotes]),
+    [live.activePianoNotes, playback.activePianoNotes, looper.activePianoNotes],
+  );
+  const highlightedDrumPads = useMemo(
+    () => new Set([
+      ...live.activeDrumPads,
+      ...playback.activeDrumPads,
+      ...sequencer.activeDrumPads,
+      ...looper.activeDrumPads,
+    ]),
+    [live.activeDrumPads, playback.activeDrumPads, sequencer.activeDrumPads, looper.activeDrumPads],
+  );
+
+  // Playback, the sequencer and the looper share the Transport, so only one runs at a time
+  const handlePlay = useCallback(() => {
+    stopSequencer();
+    stopLooper();
+    playPlayback();
+  }, [stopSequencer, stopLooper, playPlayback]);
+
+  const handleStartSequencer = useCallback(() => {
+    stopPlayback();
+    stopLooper();
+    startSequencer();
+  }, [stopPlayback, stopLooper, startSequencer]);
+
+  const handleStartLooper = useCallback(() => {
+    stopPlayback();
+    stopSequencer();
+    startLooper();
+  }, [stopPlayback, stopSequencer, startLooper]);
+
+  const handleRecordLoop = useCallback(() => {
+    stopPlayback();
+    stopSequencer();
+    recordLoop();
+  }, [stopPlayback, stopSequencer, recordLoop]);
+
+  const handleAddSequence = useCallback(() => {
+    stopPlayback();
+    const takeTracks = createTakeTracks(patternToNotes(sequencer.pattern, sequencer.bpm, sequencer.swing), tracks);
+    if (tracks.length === 0) {
+      setRecordingDrumKit(drumKit);
+      // Steps are sixteenths of a 4/4 bar
+      setRecordingTempo({ bpm: sequencer.bpm, timeSignature: DEFAULT_TEMPO.timeSignature });
+      setRecordingSynthPatch(synthPatch);
+    }
+    setTracks([...tracks, ...takeTracks]);
+    setSelectedTrackId(takeTracks[0].id);
+  }, [stopPlayback, sequencer.pattern, sequencer.bpm, sequencer.swing, tracks, drumKit, synthPatch]);
+
+  const handleEffectsChange = useCallback((slots: EffectSlot[]) => {
+    setEffects(prev => ({ ...prev, [activeInstrument]: slots }));
+  }, [activeInstrument]);
+
+  const handleTrackNotesChange = useCallback((notes: NoteEvent[]) => {
+    setTracks(prev => prev.map(track => (track.id === selectedTrack?.id ? { ...track, notes } : track)));
+  }, [selectedTrack?.id]);
 
   const handleDownloadRecording = useCallback(() => {
-    if (recordedNotes.length === 0) return;
+    if (noteCount === 0) return;
     
-    const recording = {
-      title: `SoundSpace Recording - ${new Date().toISOString()}`,
-      notes: recordedNotes,
-      duration: recordedNotes[recordedNotes.length - 1]?.timestamp || 0,
-    };
+    const recording = createRecordingFile(tracks, {
+      drumKit: recordingDrumKit,
+      tempo: recordingTempo,
+      synthPatch: recordingSynthPatch,
+    });
     
     const dataStr = JSON.stringify(recording, null, 2);
     const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `soundspace-recording-${Date.now()}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  }, [recordedNotes]);
+    downloadBlob(dataBlob, `soundspace-recording-${Date.now()}.json`);
+  }, [noteCount, tracks, recordingDrumKit, recordingTempo, recordingSynthPatch]);
+
+  const handleImportRecording = useCallback((recording: RecordingFile) => {
+    stopPlayback();
+    setTracks(recording.tracks);
+    setSelectedTrackId(recording.tracks[0]?.id ?? null);
+    setRecordingDrumKit(recording.drumKit);
+    setRecordingTempo(recording.tempo);
+    setRecordingSynthPatch(recording.synthPatch);
+  }, [stopPlayback]);
+
+  const importRecording = useRecordingImport(handleImportRecording);
+
+  // Declared before loading below, so the render that opens a project doesn't save the old one's content over it
+  useEffect(() => {
+    if (!currentProject || loadedProjectId.current !== currentProject.id) return;
+    autosave({
+      tracks,
+      drumKit: recordingDrumKit,
+      tempo: recordingTempo,
+      synthPatch: recordingSynthPatch,
+      settings: {
+        pianoSound: pianoSound.sound,
+        pianoVoices,
+        synthPatch,
+        drumKit,
+        metronome: metronome.settings,
+        effects,
+        mixer: mixer.settings,
+      },
+    });
+  }, [
+    currentProject,
+    autosave,
+    tracks,
+    recordingDrumKit,
+    recordingTempo,
+    recordingSynthPatch,
+    pianoSound.sound,
+    pianoVoices,
+    synthPatch,
+    drumKit,
+    metronome.settings,
+    effects,
+    mixer.settings,
+  ]);
+
+  useEffect(() => {
+    if (!currentProject || loadedProjectId.current === currentProject.id) return;
+    loadedProjectId.current = currentProject.id;
+    setTracks(currentProject.tracks);
+    setSelectedTrackId(currentProject.tracks[0]?.id ?? null);
+    setRecordingDrumKit(currentProject.drumKit);
+    setRecordingTempo(currentProject.tempo);
+    setRecordingSynthPatch(currentProject.synthPatch);
+    setPianoSound(currentProject.settings.pianoSound);
+    setPianoVoices(currentProject.settings.pianoVoices);
+    setSynthPatch(currentProject.settings.synthPatch);
+    setDrumKit(currentProject.settings.drumKit);
+    setMetronomeSettings(currentProject.settings.metronome);
+    setEffects(currentProject.settings.effects);
+    setMixerSettings(currentProject.settings.mixer);
+  }, [currentProject, setPianoSound, setMetronomeSettings, setMixerSettings]);
+
+  // Waits for the render after loading, once playback has the project's tracks
+  useEffect(() => {
+    if (!autoplay || !currentProject || loadedProjectId.current !== currentProject.id) return;
+    if (tracks !== currentProject.tracks) return;
+    onAutoplay?.();
+    handlePlay();
+  }, [autoplay, currentProject, tracks, onAutoplay, handlePlay]);
+
+  if (view === null) return null;
+
+  if (view === 'settings') {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card className="p-6 bg-card/70 backdrop-blur-sm border-border/50">
+          <h3 className="text-xl font-bold mb-4 bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+            MIDI devices
+          </h3>
+          <MidiSettings
+            access={midiAccess}
+            input={midiInput}
+            output={midiOutput}
+            drumMapping={drumMapping}
+            onDrumMappingChange={setDrumMapping}
+            routing={routing}
+            onRoutingChange={setRouting}
+          />
+        </Card>
+      </div>
+    );
+  }
+
+  const isEditor = view === 'editor';
+  // New tracks follow the ones already recorded; live play is free to change tempo
+  const isTempoLocked = isEditor && tracks.length > 0;
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-background via-card to-background">
-      {/* Header */}
+    <RecordingDropZone
+      onFile={importRecording}
+      disabled={isRecording || !isEditor}
+      className="min-h-full bg-gradient-to-br from-background via-card to-background"
+    >
       <div className="container mx-auto px-4 py-8">
-        <div className="text-center mb-8">
-          <h1 className="text-6xl font-bold bg-gradient-to-r from-primary via-accent to-secondary bg-clip-text text-transparent mb-4 animate-float">
-            SoundSpace
-          </h1>
-          <p className="text-muted-foreground text-lg">
-            Create beautiful music with our interactive virtual instruments
-          </p>
-        </div>
 
         {/* Instrument Switcher */}
         <Card className="p-6 mb-8 bg-card/50 backdrop-blur-sm border-border/50">
@@ -103,39 +469,90 @@ const SoundSpace = () => {
                 <Drum className="w-5 h-5" />
                 Drums
               </Button>
+              <VoiceSettings options={pianoVoices} onChange={setPianoVoices} />
+              <MetronomeSettings
+                settings={isTempoLocked ? { ...metronome.settings, tempo: recordingTempo } : metronome.settings}
+                onChange={metronome.setSettings}
+                disabled={isRecording}
+                tempoLocked={isTempoLocked}
+              />
             </div>
 
             {/* Recording Controls */}
-            <div className="flex items-center gap-3">
-              {!isRecording ? (
-                <Button
-                  onClick={handleStartRecording}
-                  className="flex items-center gap-2 bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700"
-                >
-                  <Play className="w-4 h-4" />
-                  Record
-                </Button>
-              ) : (
-                <Button
-                  onClick={handleStopRecording}
-                  className="flex items-center gap-2 bg-gradient-to-r from-red-600 to-red-700 animate-glow-pulse"
-                >
-                  <Square className="w-4 h-4" />
-                  Stop Recording
-                </Button>
-              )}
+            {isEditor && (
+              <div className="flex flex-wrap items-center justify-center gap-3">
+                {!isRecording ? (
+                  <Button
+                    onClick={handleStartRecording}
+                    className="flex items-center gap-2 bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700"
+                  >
+                    <Play className="w-4 h-4" />
+                    Record
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={handleStopRecording}
+                    className="flex items-center gap-2 bg-gradient-to-r from-red-600 to-red-700 animate-glow-pulse"
+                  >
+                    <Square className="w-4 h-4" />
+                    Stop Recording
+                  </Button>
+                )}
               
-              {recordedNotes.length > 0 && (
-                <Button
-                  onClick={handleDownloadRecording}
-                  variant="outline"
-                  className="flex items-center gap-2"
-                >
-                  <Download className="w-4 h-4" />
-                  Download ({recordedNotes.length} notes)
-                </Button>
-              )}
-            </div>
+                {noteCount > 0 && !isRecording && (
+                  <div className="flex items-center gap-1">
+                    {playback.state === 'playing' ? (
+                      <Button onClick={playback.pause} variant="outline" size="icon" aria-label="Pause playback">
+                        <Pause className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button onClick={handlePlay} variant="outline" size="icon" aria-label="Play recording">
+                        <Play className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      onClick={playback.stop}
+                      variant="outline"
+                      size="icon"
+                      disabled={playback.state === 'stopped'}
+                      aria-label="Stop playback"
+                    >
+                      <Square className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+
+                <RecordingImportButton onFile={importRecording} disabled={isRecording} />
+
+                {noteCount > 0 && (
+                  <Button
+                    onClick={handleDownloadRecording}
+                    variant="outline"
+                    className="flex items-center gap-2"
+                  >
+                    <Download className="w-4 h-4" />
+                    Download ({noteCount} notes)
+                  </Button>
+                )}
+
+                {noteCount > 0 && !isRecording && (
+                  <MidiExport notes={mixdown} tempo={recordingTempo} />
+                )}
+
+                {noteCount > 0 && !isRecording && (
+                  <ShareLink
+                    notes={mixdown}
+                    drumKit={recordingDrumKit}
+                    tempo={recordingTempo}
+                    synthPatch={recordingSynthPatch}
+                  />
+                )}
+
+                {noteCount > 0 && !isRecording && (
+                  <AudioExport tracks={tracks} instruments={recordingInstruments} mixer={mixer.settings} />
+                )}
+              </div>
+            )}
           </div>
         </Card>
 
@@ -147,7 +564,14 @@ const SoundSpace = () => {
             }`}
           >
             {activeInstrument === 'piano' && (
-              <Piano onNotePlay={handleNotePlay} />
+              <Piano
+                onNoteOn={handlePianoNoteOn}
+                onNoteOff={handlePianoNoteOff}
+                highlightedNotes={highlightedPianoNotes}
+                sound={pianoSound.sound}
+                onSoundChange={pianoSound.setSound}
+                soundStatus={pianoSound.status}
+              />
             )}
           </div>
           
@@ -157,22 +581,84 @@ const SoundSpace = () => {
             }`}
           >
             {activeInstrument === 'drums' && (
-              <Drums onNotePlay={handleNotePlay} />
+              <Drums
+                onNoteOn={handleDrumNoteOn}
+                onNoteOff={handleDrumNoteOff}
+                highlightedPads={highlightedDrumPads}
+                kit={drumKit}
+                onKitChange={setDrumKit}
+                kitStatus={liveDrums.status}
+                padSamples={padSamples}
+              />
+            )}
+            {activeInstrument === 'drums' && (
+              <StepSequencer
+                sequencer={sequencer}
+                onStart={handleStartSequencer}
+                onAddAsTrack={handleAddSequence}
+                canAddAsTrack={isEditor && !isRecording}
+              />
             )}
           </div>
         </div>
 
+        {activeInstrument === 'piano' && pianoSound.sound === 'synth' && (
+          <SynthDesigner patch={synthPatch} onChange={setSynthPatch} presets={synthPresets} />
+        )}
+
+        <EffectsRack instrument={activeInstrument} slots={effects[activeInstrument]} onChange={handleEffectsChange} />
+
+        <Mixer settings={mixer.settings} onChange={setMixerSettings} />
+
+        {view === 'play' && (
+          <Looper looper={looper} onStart={handleStartLooper} onRecord={handleRecordLoop} disabled={isRecording} />
+        )}
+
+        {isEditor && tracks.length > 0 && (
+          <TrackList
+            tracks={tracks}
+            onChange={setTracks}
+            selectedTrackId={selectedTrack?.id ?? null}
+            onSelect={setSelectedTrackId}
+            disabled={isRecording}
+          />
+        )}
+
+        {/* Editor for the selected track */}
+        {isEditor && !isRecording && selectedTrack && (
+          <PianoRoll
+            notes={selectedTrack.notes}
+            onChange={handleTrackNotesChange}
+            tempo={recordingTempo}
+            instrument={selectedTrack.instrument}
+          />
+        )}
+
         {/* Recording Status */}
         {isRecording && (
           <div className="fixed bottom-4 right-4 bg-red-500/20 border border-red-500/50 rounded-lg p-4 backdrop-blur-sm">
             <div className="flex items-center gap-2 text-red-400">
               <div className="w-3 h-3 bg-red-500 rounded-full animate-glow-pulse"></div>
-              <span className="font-semibold">Recording... ({recordedNotes.length} notes)</span>
+              <span className="font-semibold">
+                {metronome.countIn !== null
+                  ? `Count-in... ${metronome.countIn}`
+                  : `Recording... (${takeNotes.length} notes)`}
+              </span>
             </div>
+            {metronome.beat !== null && (
+              <div className="flex gap-1 mt-2" aria-hidden>
+                {Array.from({ length: recordingTempo.timeSignature.beats }, (_, i) => (
+                  <div
+                    key={i}
+                    className={`h-1.5 flex-1 rounded-full ${i === metronome.beat ? 'bg-red-400' : 'bg-red-500/30'}`}
+                  />
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
-    </div>
+    </RecordingDropZone>
   );
 };
 
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import type { useStepSequencer } from '@/hooks/use-step-sequencer';
+import { drumSounds } from '@/lib/instruments';
+import { STEP_COUNTS, type StepCount } from '@/lib/step-sequencer';
+import { BPM_RANGE } from '@/lib/tempo';
+import { CircleDot, Eraser, Play, Square } from 'lucide-react';
+
+interface StepSequencerProps {
+  sequencer: ReturnType<typeof useStepSequencer>;
+  // Called instead of sequencer.start, so the page can stop anything else using the Transport
+  onStart: () => void;
+  onAddAsTrack: () => void;
+  canAddAsTrack: boolean;
+}
+
+// Steps per beat, grouped visually
+const BEAT_STEPS = 4;
+
+export const StepSequencer: React.FC<StepSequencerProps> = ({
+  sequencer,
+  onStart,
+  onAddAsTrack,
+  canAddAsTrack,
+}) => {
+  const { pattern, currentStep } = sequencer;
+  const isEmpty = Object.values(pattern.steps).every(steps => !steps.includes(true));
+
+  return (
+    <Card className="p-6 mt-6 bg-card/70 backdrop-blur-sm border-border/50">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-xl font-bold bg-gradient-to-r from-secondary to-accent bg-clip-text text-transparent">
+          Step Sequencer
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {sequencer.isPlaying ? (
+            <Button onClick={sequencer.stop} variant="outline" size="icon" aria-label="Stop sequencer">
+              <Square className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button onClick={onStart} variant="outline" size="icon" aria-label="Play sequencer">
+              <Play className="w-4 h-4" />
+            </Button>
+          )}
+          <Button onClick={sequencer.clear} variant="outline" className="gap-2" disabled={isEmpty}>
+            <Eraser className="w-4 h-4" />
+            Clear
+          </Button>
+          <Button
+            onClick={onAddAsTrack}
+            variant="outline"
+            className="gap-2"
+            disabled={isEmpty || !canAddAsTrack}
+          >
+            <CircleDot className="w-4 h-4" />
+            Add as track
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-6 sm:grid-cols-3 mb-6">
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Tempo</Label>
+            <span className="text-sm text-muted-foreground">{sequencer.bpm} BPM</span>
+          </div>
+          <Slider
+            value={[sequencer.bpm]}
+            min={BPM_RANGE.min}
+            max={BPM_RANGE.max}
+            step={1}
+            onValueChange={([value]) => sequencer.setBpm(value)}
+            aria-label="Tempo"
+          />
+        </div>
+        <div className="space-y-2">
+          <div className="flex justify-between">
+            <Label>Swing</Label>
+            <span className="text-sm text-muted-foreground">{Math.round(sequencer.swing * 100)}%</span>
+          </div>
+          <Slider
+            value={[sequencer.swing]}
+            min={0}
+            max={1}
+            step={0.01}
+            onValueChange={([value]) => sequencer.setSwing(value)}
+            aria-label="Swing"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Steps</Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            className="justify-start"
+            value={String(pattern.length)}
+            onValueChange={value => value && sequencer.setLength(Number(value) as StepCount)}
+            aria-label="Pattern length"
+          >
+            {STEP_COUNTS.map(count => (
+              <ToggleGroupItem key={count} value={String(count)}>
+                {count}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex flex-col gap-1 min-w-full">
+          {drumSounds.map(drum => (
+            <div key={drum.name} className="flex items-center gap-1">
+              <span className="w-16 shrink-0 text-xs font-medium text-muted-foreground">{drum.name}</span>
+              {pattern.steps[drum.name].map((on, step) => (
+                <button
+                  key={step}
+                  onClick={() => sequencer.toggle(drum.name, step)}
+                  aria-label={`${drum.name} step ${step + 1}`}
+                  aria-pressed={on}
+                  className={`
+                    h-7 w-7 shrink-0 rounded transition-colors duration-100
+                    ${step > 0 && step % BEAT_STEPS === 0 ? 'ml-2' : ''}
+                    ${on ? `bg-gradient-to-br ${drum.color}` : 'bg-muted/40 hover:bg-muted'}
+                    ${step === currentStep ? 'ring-2 ring-primary' : ''}
+                  `}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+};
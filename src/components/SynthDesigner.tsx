@@ -0,0 +1,321 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import type { useSynthPresets } from '@/hooks/use-synth-presets';
+import {
+  FACTORY_PRESETS,
+  LFO_TARGET_IDS,
+  LFO_TARGETS,
+  SYNTH_WAVEFORMS,
+  type LfoTarget,
+  type SynthEnvelope,
+  type SynthLfo,
+  type SynthPatch,
+  type SynthWaveform,
+} from '@/lib/synth-patch';
+import { Save, Trash2 } from 'lucide-react';
+
+interface SynthDesignerProps {
+  patch: SynthPatch;
+  onChange: (patch: SynthPatch) => void;
+  presets: ReturnType<typeof useSynthPresets>;
+}
+
+interface ParamSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+  // Spreads frequencies evenly by octave rather than by Hz
+  logarithmic?: boolean;
+  onChange: (value: number) => void;
+}
+
+// Positions on a logarithmic slider
+const LOG_STEPS = 1000;
+
+const formatValue = (value: number, step: number, unit?: string) => {
+  if (unit === 'Hz' && value >= 1000) return `${(value / 1000).toFixed(1)} kHz`;
+  const decimals = step >= 1 ? 0 : Math.min(3, Math.ceil(-Math.log10(step)));
+  return unit ? `${value.toFixed(decimals)} ${unit}` : value.toFixed(decimals);
+};
+
+const ParamSlider: React.FC<ParamSliderProps> = ({ label, value, min, max, step, unit, logarithmic, onChange }) => {
+  const range = Math.log(max / min);
+  const position = logarithmic ? (Math.log(value / min) / range) * LOG_STEPS : value;
+  const handleChange = ([next]: number[]) => {
+    onChange(logarithmic ? Math.round(min * Math.exp((next / LOG_STEPS) * range)) : next);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <Label className="text-xs">{label}</Label>
+        <span className="text-muted-foreground">{formatValue(value, logarithmic ? 1 : step, unit)}</span>
+      </div>
+      <Slider
+        value={[position]}
+        min={logarithmic ? 0 : min}
+        max={logarithmic ? LOG_STEPS : max}
+        step={logarithmic ? 1 : step}
+        onValueChange={handleChange}
+        aria-label={label}
+      />
+    </div>
+  );
+};
+
+const EnvelopeSliders: React.FC<{
+  name: string;
+  envelope: SynthEnvelope;
+  onChange: (envelope: SynthEnvelope) => void;
+}> = ({ name, envelope, onChange }) => (
+  <>
+    <ParamSlider
+      label={`${name} attack`}
+      value={envelope.attack}
+      min={0.001}
+      max={2}
+      step={0.001}
+      unit="s"
+      onChange={attack => onChange({ ...envelope, attack })}
+    />
+    <ParamSlider
+      label={`${name} decay`}
+      value={envelope.decay}
+      min={0.01}
+      max={2}
+      step={0.01}
+      unit="s"
+      onChange={decay => onChange({ ...envelope, decay })}
+    />
+    <ParamSlider
+      label={`${name} sustain`}
+      value={envelope.sustain}
+      min={0}
+      max={1}
+      step={0.01}
+      onChange={sustain => onChange({ ...envelope, sustain })}
+    />
+    <ParamSlider
+      label={`${name} release`}
+      value={envelope.release}
+      min={0.01}
+      max={5}
+      step={0.01}
+      unit="s"
+      onChange={release => onChange({ ...envelope, release })}
+    />
+  </>
+);
+
+/**
+ * Shapes the synth piano's live sound. The first track of a project is recorded
+ * with the patch, and the patch can be kept as a named preset to reuse in other
+ * projects.
+ */
+export const SynthDesigner: React.FC<SynthDesignerProps> = ({ patch, onChange, presets }) => {
+  const [presetName, setPresetName] = useState('');
+  const trimmedName = presetName.trim();
+  const isUserPreset = presets.presets.some(preset => preset.name === trimmedName);
+
+  const update = (changes: Partial<SynthPatch>) => onChange({ ...patch, ...changes });
+
+  const updateLfo = (index: number, changes: Partial<SynthLfo>) => {
+    update({ lfos: patch.lfos.map((lfo, i) => (i === index ? { ...lfo, ...changes } : lfo)) });
+  };
+
+  const handleLoad = (value: string) => {
+    const [source, name] = [value.slice(0, value.indexOf(':')), value.slice(value.indexOf(':') + 1)];
+    const list = source === 'factory' ? FACTORY_PRESETS : presets.presets;
+    const preset = list.find(entry => entry.name === name);
+    if (!preset) return;
+    onChange(preset.patch);
+    setPresetName(source === 'user' ? name : '');
+  };
+
+  return (
+    <Card className="p-6 mt-6 bg-card/70 backdrop-blur-sm border-border/50">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Synth sound
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value="" onValueChange={handleLoad}>
+            <SelectTrigger className="w-40" aria-label="Load preset">
+              <SelectValue placeholder="Load preset" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                <SelectLabel>Built in</SelectLabel>
+                {FACTORY_PRESETS.map(preset => (
+                  <SelectItem key={preset.name} value={`factory:${preset.name}`}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+              {presets.presets.length > 0 && (
+                <SelectGroup>
+                  <SelectLabel>Yours</SelectLabel>
+                  {presets.presets.map(preset => (
+                    <SelectItem key={preset.name} value={`user:${preset.name}`}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              )}
+            </SelectContent>
+          </Select>
+          <Input
+            value={presetName}
+            onChange={event => setPresetName(event.target.value)}
+            placeholder="Preset name"
+            className="w-36"
+            aria-label="Preset name"
+          />
+          <Button
+            onClick={() => presets.save(trimmedName, patch)}
+            variant="outline"
+            className="gap-2"
+            disabled={!trimmedName}
+          >
+            <Save className="w-4 h-4" />
+            {isUserPreset ? 'Update' : 'Save'}
+          </Button>
+          {isUserPreset && (
+            <Button
+              onClick={() => {
+                presets.remove(trimmedName);
+                setPresetName('');
+              }}
+              variant="ghost"
+              size="icon"
+              aria-label={`Delete preset ${trimmedName}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold text-muted-foreground">Oscillator</h4>
+          <Select value={patch.waveform} onValueChange={waveform => update({ waveform: waveform as SynthWaveform })}>
+            <SelectTrigger aria-label="Waveform">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SYNTH_WAVEFORMS.map(waveform => (
+                <SelectItem key={waveform} value={waveform} className="capitalize">
+                  {waveform}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ParamSlider
+            label="Detune"
+            value={patch.detune}
+            min={-100}
+            max={100}
+            step={1}
+            unit="ct"
+            onChange={detune => update({ detune })}
+          />
+          <h4 className="text-sm font-semibold text-muted-foreground pt-2">Amp envelope</h4>
+          <EnvelopeSliders name="Amp" envelope={patch.envelope} onChange={envelope => update({ envelope })} />
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold text-muted-foreground">Filter</h4>
+          <ParamSlider
+            label="Cutoff"
+            value={patch.cutoff}
+            min={50}
+            max={20000}
+            step={1}
+            unit="Hz"
+            logarithmic
+            onChange={cutoff => update({ cutoff })}
+          />
+          <ParamSlider
+            label="Resonance"
+            value={patch.resonance}
+            min={0.1}
+            max={20}
+            step={0.1}
+            onChange={resonance => update({ resonance })}
+          />
+          <h4 className="text-sm font-semibold text-muted-foreground pt-2">Filter envelope</h4>
+          <ParamSlider
+            label="Envelope amount"
+            value={patch.filterEnvelope.amount}
+            min={0}
+            max={8}
+            step={0.1}
+            unit="oct"
+            onChange={amount => update({ filterEnvelope: { ...patch.filterEnvelope, amount } })}
+          />
+          <EnvelopeSliders
+            name="Filter"
+            envelope={patch.filterEnvelope}
+            onChange={envelope => update({ filterEnvelope: { ...patch.filterEnvelope, ...envelope } })}
+          />
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 mt-6">
+        {patch.lfos.map((lfo, index) => (
+          <div key={index} className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-sm font-semibold text-muted-foreground">LFO {index + 1}</h4>
+              <Select value={lfo.target} onValueChange={target => updateLfo(index, { target: target as LfoTarget })}>
+                <SelectTrigger className="w-36" aria-label={`LFO ${index + 1} target`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LFO_TARGET_IDS.map(target => (
+                    <SelectItem key={target} value={target}>
+                      {LFO_TARGETS[target]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ParamSlider
+              label={`LFO ${index + 1} rate`}
+              value={lfo.rate}
+              min={0.1}
+              max={20}
+              step={0.1}
+              unit="Hz"
+              onChange={rate => updateLfo(index, { rate })}
+            />
+            <ParamSlider
+              label={`LFO ${index + 1} depth`}
+              value={lfo.depth}
+              min={0}
+              max={1}
+              step={0.01}
+              onChange={depth => updateLfo(index, { depth })}
+            />
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Toggle } from '@/components/ui/toggle';
+import { formatPan } from '@/lib/mixer';
+import { isTrackAudible, TRACK_VOLUME_RANGE, type Track, type TrackSettings } from '@/lib/tracks';
+import { Drum, Piano as PianoIcon, Trash2 } from 'lucide-react';
+
+interface TrackListProps {
+  tracks: Track[];
+  onChange: (tracks: Track[]) => void;
+  // The track shown in the piano roll
+  selectedTrackId: string | null;
+  onSelect: (id: string) => void;
+  disabled?: boolean;
+}
+
+export const TrackList: React.FC<TrackListProps> = ({ tracks, onChange, selectedTrackId, onSelect, disabled }) => {
+  const update = (id: string, settings: Partial<TrackSettings>) => {
+    onChange(tracks.map(track => (track.id === id ? { ...track, ...settings } : track)));
+  };
+
+  return (
+    <Card className="p-6 mt-6 bg-card/70 backdrop-blur-sm border-border/50">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+          Tracks
+        </h3>
+        <Button onClick={() => onChange([])} variant="outline" className="gap-2" disabled={disabled}>
+          <Trash2 className="w-4 h-4" />
+          Clear all
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {tracks.map(track => {
+          const Icon = track.instrument === 'piano' ? PianoIcon : Drum;
+          const isSelected = track.id === selectedTrackId;
+          return (
+            <div
+              key={track.id}
+              className={`flex flex-wrap items-center gap-3 rounded-md border p-2 ${
+                isSelected ? 'border-primary bg-primary/10' : 'border-border/50'
+              } ${isTrackAudible(track, tracks) ? '' : 'opacity-60'}`}
+            >
+              <Button
+                onClick={() => onSelect(track.id)}
+                variant={isSelected ? 'default' : 'ghost'}
+                size="icon"
+                aria-label={`Edit ${track.name}`}
+                aria-pressed={isSelected}
+              >
+                <Icon className="w-4 h-4" />
+              </Button>
+              <Input
+                value={track.name}
+                onChange={event => update(track.id, { name: event.target.value })}
+                className="h-8 w-36"
+                aria-label="Track name"
+                disabled={disabled}
+              />
+              <span className="text-xs text-muted-foreground w-16">{track.notes.length} notes</span>
+              <Toggle
+                size="sm"
+                pressed={track.muted}
+                onPressedChange={muted => update(track.id, { muted })}
+                aria-label={`Mute ${track.name}`}
+              >
+                M
+              </Toggle>
+              <Toggle
+                size="sm"
+                pressed={track.solo}
+                onPressedChange={solo => update(track.id, { solo })}
+                aria-label={`Solo ${track.name}`}
+              >
+                S
+              </Toggle>
+              <div className="flex items-center gap-2 min-w-40 flex-1">
+                <Slider
+                  value={[track.volume]}
+                  min={TRACK_VOLUME_RANGE.min}
+                  max={TRACK_VOLUME_RANGE.max}
+                  step={1}
+                  onValueChange={([volume]) => update(track.id, { volume })}
+                  aria-label={`${track.name} volume`}
+                />
+                <span className="text-xs text-muted-foreground w-12 text-right">{track.volume} dB</span>
+              </div>
+              <div className="flex items-center gap-2 w-32">
+                <Slider
+                  value={[track.pan]}
+                  min={-1}
+                  max={1}
+                  step={0.05}
+                  onValueChange={([pan]) => update(track.id, { pan })}
+                  aria-label={`${track.name} pan`}
+                />
+                <span className="text-xs text-muted-foreground w-8 text-right">{formatPan(track.pan)}</span>
+              </div>
+              <Button
+                onClick={() => onChange(tracks.filter(other => other.id !== track.id))}
+                variant="ghost"
+                size="icon"
+                aria-label={`Delete ${track.name}`}
+                disabled={disabled}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MAX_VOICES_OPTIONS, type VoiceOptions, type VoiceStealing } from '@/lib/voice-manager';
+import { Layers } from 'lucide-react';
+
+interface VoiceSettingsProps {
+  options: VoiceOptions;
+  onChange: (options: VoiceOptions) => void;
+}
+
+const STEALING_LABELS: { [stealing in VoiceStealing]: string } = {
+  oldest: 'Replace the oldest note',
+  quietest: 'Replace the quietest note',
+  none: 'Ignore new notes',
+};
+
+export const VoiceSettings: React.FC<VoiceSettingsProps> = ({ options, onChange }) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          Voices
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="piano-max-voices">Piano polyphony</Label>
+          <Select
+            value={String(options.maxVoices)}
+            onValueChange={value => onChange({ ...options, maxVoices: Number(value) })}
+          >
+            <SelectTrigger id="piano-max-voices">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MAX_VOICES_OPTIONS.map(count => (
+                <SelectItem key={count} value={String(count)}>
+                  {count} voices
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>When all voices are playing</Label>
+          <RadioGroup
+            value={options.stealing}
+            onValueChange={stealing => onChange({ ...options, stealing: stealing as VoiceStealing })}
+          >
+            {(Object.keys(STEALING_LABELS) as VoiceStealing[]).map(stealing => (
+              <div key={stealing} className="flex items-center gap-2">
+                <RadioGroupItem value={stealing} id={`voice-stealing-${stealing}`} />
+                <Label htmlFor={`voice-stealing-${stealing}`} className="font-normal">
+                  {STEALING_LABELS[stealing]}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from 'react';
+import type { SampleLoadStatus } from '@/hooks/use-piano-sound';
+import { useToast } from '@/hooks/use-toast';
+import { DRUM_KITS, loadDrumKit, type DrumKitId, type DrumKitSamples } from '@/lib/drum-kits';
+
+/**
+ * Loads the samples of `kit`. The previous kit keeps playing until they are
+ * ready; if they fail to load, the synth kit plays instead and `onError` is
+ * called.
+ */
+export function useDrumKitSamples(kit: DrumKitId, onError?: () => void) {
+  const { toast } = useToast();
+  const [samples, setSamples] = useState<DrumKitSamples | null>(null);
+  const [status, setStatus] = useState<SampleLoadStatus>('idle');
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  useEffect(() => {
+    let cancelled = false;
+    setStatus('loading');
+    loadDrumKit(kit)
+      .then(loaded => {
+        if (cancelled) return;
+        setSamples(loaded);
+        setStatus('ready');
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setSamples(null);
+        setStatus('error');
+        toast({
+          variant: 'destructive',
+          title: `Could not load the ${DRUM_KITS[kit].name} kit`,
+          description: 'Playing the synth kit instead.',
+        });
+        onErrorRef.current?.();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kit, toast]);
+
+  return { samples, status };
+}
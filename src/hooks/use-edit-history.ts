@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// Undo steps kept per value
+const MAX_HISTORY = 100;
+
+/**
+ * Undo and redo for a value owned by the caller. Edits go through `apply`;
+ * any other change to `value`, e.g. loading a new take, starts a fresh history.
+ */
+export function useEditHistory<T>(value: T, onChange: (value: T) => void) {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+  // The last value this hook handed to onChange
+  const appliedRef = useRef(value);
+
+  useEffect(() => {
+    if (value === appliedRef.current) return;
+    appliedRef.current = value;
+    setPast([]);
+    setFuture([]);
+  }, [value]);
+
+  const commit = useCallback((next: T) => {
+    appliedRef.current = next;
+    onChange(next);
+  }, [onChange]);
+
+  const apply = useCallback((next: T) => {
+    setPast(prev => [...prev, value].slice(-MAX_HISTORY));
+    setFuture([]);
+    commit(next);
+  }, [value, commit]);
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    setPast(past.slice(0, -1));
+    setFuture(prev => [value, ...prev]);
+    commit(past[past.length - 1]);
+  }, [past, value, commit]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    setFuture(future.slice(1));
+    setPast(prev => [...prev, value]);
+    commit(future[0]);
+  }, [future, value, commit]);
+
+  return { apply, undo, redo, canUndo: past.length > 0, canRedo: future.length > 0 };
+}
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from 'react';
+import {
+  createInstrumentVoices,
+  disposeInstrumentVoices,
+  updateInstrumentVoices,
+  type InstrumentOptions,
+  type InstrumentVoices,
+} from '@/lib/instruments';
+
+/**
+ * Creates a set of instrument voices for the lifetime of the component and
+ * keeps the piano, drum kit, pad samples and effects in step with `options`.
+ */
+export function useInstrumentVoices(options: InstrumentOptions) {
+  const voicesRef = useRef<InstrumentVoices | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  // Options the current voices were made or last updated with
+  const appliedRef = useRef(options);
+
+  useEffect(() => {
+    const voices = createInstrumentVoices(optionsRef.current);
+    voicesRef.current = voices;
+    appliedRef.current = optionsRef.current;
+
+    return () => disposeInstrumentVoices(voices);
+  }, []);
+
+  useEffect(() => {
+    const voices = voicesRef.current;
+    if (!voices || appliedRef.current === options) return;
+    updateInstrumentVoices(voices, appliedRef.current, options);
+    appliedRef.current = options;
+  }, [options]);
+
+  return voicesRef;
+}
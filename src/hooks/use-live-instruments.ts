@@ -0,0 +1,114 @@
+import { useCallback, useRef, useState } from 'react';
+import * as Tone from 'tone';
+import { useInstrumentVoices } from '@/hooks/use-instrument-voices';
+import {
+  getMidiNote,
+  parseDrumNote,
+  triggerDrum,
+  type InstrumentOptions,
+} from '@/lib/instruments';
+import type { Instrument } from '@/lib/recording';
+import { sendNoteOff, sendNoteOn, sendsInternal, sendsMidi, type InstrumentRoute, type InstrumentRouting } from '@/lib/web-midi';
+
+// How long a drum pad stays lit after it is hit
+const PAD_FLASH_MS = 200;
+
+// Sends a note-on, or a note-off when `velocity` is null, if the instrument is routed to MIDI
+const sendRoutedNote = (
+  route: InstrumentRoute,
+  output: MIDIOutput | null,
+  instrument: Instrument,
+  note: string,
+  velocity: number | null,
+) => {
+  const midiNote = getMidiNote(instrument, note);
+  if (!sendsMidi(route) || !output || midiNote === undefined) return;
+  if (velocity === null) {
+    sendNoteOff(output, route.channel, midiNote);
+  } else {
+    sendNoteOn(output, route.channel, midiNote, velocity);
+  }
+};
+
+/**
+ * Owns the voices played live, whether from the on-screen instruments, the
+ * computer keyboard or a MIDI controller, so every source sounds the same
+ * and keys light up regardless of which instrument is on screen. Notes are
+ * sent to the internal voices, the MIDI output port or both, per `routing`.
+ */
+export function useLiveInstruments(
+  routing: InstrumentRouting,
+  midiOutput: MIDIOutput | null,
+  instruments: InstrumentOptions,
+) {
+  const voicesRef = useInstrumentVoices(instruments);
+  const routingRef = useRef(routing);
+  routingRef.current = routing;
+  const midiOutputRef = useRef(midiOutput);
+  midiOutputRef.current = midiOutput;
+  // Set while the audio context is starting, so notes released meanwhile wait for their attack
+  const audioStartRef = useRef<Promise<void> | null>(null);
+  const [activePianoNotes, setActivePianoNotes] = useState<Set<string>>(new Set());
+  const [activeDrumPads, setActiveDrumPads] = useState<Set<string>>(new Set());
+
+  const noteOn = useCallback(async (instrument: Instrument, note: string, velocity: number) => {
+    const route = routingRef.current[instrument];
+    sendRoutedNote(route, midiOutputRef.current, instrument, note, velocity);
+    const internal = sendsInternal(route);
+
+    // Start audio context if needed
+    if (internal && Tone.context.state !== 'running') {
+      if (!audioStartRef.current) {
+        audioStartRef.current = Tone.start().finally(() => {
+          audioStartRef.current = null;
+        });
+      }
+      await audioStartRef.current;
+    }
+
+    const voices = voicesRef.current;
+    if (!voices) return;
+
+    if (instrument === 'piano') {
+      if (internal) {
+        voices.piano?.triggerAttack(note, undefined, velocity);
+      }
+      setActivePianoNotes(prev => new Set(prev).add(note));
+      return;
+    }
+
+    const drum = parseDrumNote(note);
+    const synth = drum && voices.drums?.[drum.name];
+    if (!synth) return;
+    if (internal) {
+      triggerDrum(synth, drum.note, undefined, velocity);
+    }
+    setActiveDrumPads(prev => new Set(prev).add(drum.name));
+    setTimeout(() => {
+      setActiveDrumPads(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(drum.name);
+        return newSet;
+      });
+    }, PAD_FLASH_MS);
+  }, [voicesRef]);
+
+  const noteOff = useCallback(async (instrument: Instrument, note: string) => {
+    sendRoutedNote(routingRef.current[instrument], midiOutputRef.current, instrument, note, null);
+
+    // Drum hits are one-shots and need no release
+    if (instrument !== 'piano') return;
+
+    // A key let go before the audio started is released after noteOn's attack
+    if (audioStartRef.current) await audioStartRef.current.catch(() => undefined);
+
+    voicesRef.current?.piano?.triggerRelease(note);
+    setActivePianoNotes(prev => {
+      const newSet = new Set(prev);
+      newSet.delete(note);
+      return newSet;
+    });
+  }, [voicesRef]);
+
+  return { noteOn, noteOff, activePianoNotes, activeDrumPads };
+}
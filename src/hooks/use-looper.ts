@@ -0,0 +1,298 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Tone from 'tone';
+import { useInstrumentVoices } from '@/hooks/use-instrument-voices';
+import { useNoteScheduler } from '@/hooks/use-note-scheduler';
+import type { InstrumentOptions } from '@/lib/instruments';
+import {
+  addLayerNote,
+  createLoopLayer,
+  DEFAULT_LOOP_BARS,
+  getLoopGeometry,
+  getSliceNotes,
+  releaseLayerNote,
+  trimLayers,
+  type LoopLayer,
+} from '@/lib/looper';
+import { createClickSynth, playClick } from '@/lib/metronome';
+import type { Instrument, NoteEvent } from '@/lib/recording';
+import { getQuarterNoteBpm, type Tempo } from '@/lib/tempo';
+import type { InstrumentRouting } from '@/lib/web-midi';
+
+export type LoopRecordState = 'idle' | 'armed' | 'recording';
+
+interface HeldLoopNote {
+  layerId: string;
+  timestamp: number;
+}
+
+/**
+ * A live looper on the Tone.js Transport. Each recorded pass becomes a layer
+ * that repeats with the others, and layers can be muted or undone while the
+ * loop keeps running.
+ */
+export function useLooper(
+  tempo: Tempo,
+  routing: InstrumentRouting,
+  midiOutput: MIDIOutput | null,
+  instruments: InstrumentOptions,
+) {
+  const [bars, setBars] = useState<number>(DEFAULT_LOOP_BARS);
+  const [layers, setLayerState] = useState<LoopLayer[]>([]);
+  // Tempo the layers were recorded at, which the loop keeps until cleared
+  const [loopTempo, setLoopTempo] = useState(tempo);
+  const [click, setClick] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [recordState, setRecordState] = useState<LoopRecordState>('idle');
+  // Beat of the loop last played, from 0, or null when stopped
+  const [beat, setBeat] = useState<number | null>(null);
+  const voicesRef = useInstrumentVoices(instruments);
+  const { schedule, silence, clearHighlights, activePianoNotes, activeDrumPads } = useNoteScheduler(
+    routing,
+    midiOutput,
+  );
+  // Read by the Transport callback, so kept in step as soon as layers change
+  // rather than on the next render
+  const layersRef = useRef(layers);
+  const tempoRef = useRef(tempo);
+  tempoRef.current = tempo;
+  const barsRef = useRef(bars);
+  barsRef.current = bars;
+  const clickRef = useRef(click);
+  clickRef.current = click;
+  const geometryRef = useRef(getLoopGeometry(bars, tempo));
+  const repeatEventRef = useRef<number | null>(null);
+  const nextSliceRef = useRef(0);
+  const synthRef = useRef<Tone.Synth | null>(null);
+  // Pass of the loop being recorded, counted from 0 when the loop started
+  const recordPassRef = useRef<number | null>(null);
+  const recordLayerIdRef = useRef<string | null>(null);
+  const heldNotes = useRef<Map<string, HeldLoopNote>>(new Map());
+  // Draw callbacks from a run that has since stopped must not touch state
+  const runRef = useRef(0);
+
+  const updateLayers = useCallback((update: (prev: LoopLayer[]) => LoopLayer[]) => {
+    layersRef.current = update(layersRef.current);
+    setLayerState(layersRef.current);
+  }, []);
+
+  const cancelRecording = useCallback(() => {
+    recordPassRef.current = null;
+    recordLayerIdRef.current = null;
+    heldNotes.current.clear();
+    setRecordState('idle');
+  }, []);
+
+  const release = useCallback(() => {
+    if (repeatEventRef.current === null) return;
+    Tone.getTransport().clear(repeatEventRef.current);
+    repeatEventRef.current = null;
+    runRef.current++;
+    silence(voicesRef.current ? [voicesRef.current] : []);
+    // Keep whatever was played of an unfinished pass
+    const recordLayerId = recordLayerIdRef.current;
+    updateLayers(prev => prev.filter(layer => layer.id !== recordLayerId || layer.notes.length > 0));
+    cancelRecording();
+    clearHighlights();
+    setBeat(null);
+    setIsPlaying(false);
+  }, [silence, voicesRef, updateLayers, cancelRecording, clearHighlights]);
+
+  const stop = useCallback(() => {
+    if (repeatEventRef.current === null) return;
+    Tone.getTransport().stop();
+    release();
+  }, [release]);
+
+  useEffect(() => stop, [stop]);
+
+  useEffect(() => () => {
+    synthRef.current?.dispose();
+    synthRef.current = null;
+  }, []);
+
+  // Let go when something else, e.g. recording playback, stops the Transport.
+  // The event arrives a little late, so check it hasn't been restarted since.
+  useEffect(() => {
+    const transport = Tone.getTransport();
+    const handleStop = () => {
+      if (transport.state === 'stopped') release();
+    };
+    transport.on('stop', handleStop);
+    return () => {
+      transport.off('stop', handleStop);
+    };
+  }, [release]);
+
+  const draw = useCallback((callback: () => void, time: number) => {
+    const run = runRef.current;
+    Tone.getDraw().schedule(() => {
+      if (runRef.current === run) callback();
+    }, time);
+  }, []);
+
+  const start = useCallback(async () => {
+    if (repeatEventRef.current !== null) return;
+
+    // Start audio context if needed
+    if (Tone.context.state !== 'running') {
+      await Tone.start();
+    }
+
+    // A new loop takes the current tempo; one with layers keeps the tempo they were played to
+    const runTempo = layersRef.current.length > 0 ? loopTempo : tempoRef.current;
+    setLoopTempo(runTempo);
+    geometryRef.current = getLoopGeometry(barsRef.current, runTempo);
+    const synth = synthRef.current ?? createClickSynth();
+    synthRef.current = synth;
+
+    const transport = Tone.getTransport();
+    transport.stop();
+    // Whole ticks per sixteenth keep the passes from drifting
+    transport.bpm.value = getQuarterNoteBpm(runTempo);
+    nextSliceRef.current = 0;
+    repeatEventRef.current = transport.scheduleRepeat(time => {
+      const { sliceMs, slices, beatSlices, beatsPerBar } = geometryRef.current;
+      const slice = nextSliceRef.current % slices;
+      nextSliceRef.current++;
+      const sliceStart = slice * sliceMs;
+      layersRef.current
+        .filter(layer => !layer.muted)
+        .forEach(layer => getSliceNotes(layer, sliceStart, sliceMs).forEach(event => {
+          schedule(event, time + (event.timestamp - sliceStart) / 1000, voicesRef.current);
+        }));
+
+      if (slice % beatSlices !== 0) return;
+      const loopBeat = slice / beatSlices;
+      if (clickRef.current) playClick(synth, time, loopBeat % beatsPerBar === 0);
+      draw(() => setBeat(loopBeat), time);
+    }, '16n', 0);
+
+    transport.position = 0;
+    transport.start();
+    setIsPlaying(true);
+  }, [loopTempo, schedule, voicesRef, draw]);
+
+  /**
+   * Records the next full pass of the loop as a new layer, starting the loop
+   * first if it isn't running.
+   */
+  const record = useCallback(async () => {
+    if (recordLayerIdRef.current !== null) return;
+
+    const wasPlaying = repeatEventRef.current !== null;
+    if (!wasPlaying) await start();
+
+    const transport = Tone.getTransport();
+    const now = Tone.immediate();
+    const position = transport.getSecondsAtTime(now);
+    const loopSeconds = geometryRef.current.loopMs / 1000;
+    const pass = wasPlaying ? Math.floor(position / loopSeconds) + 1 : 0;
+    const layer = createLoopLayer(layersRef.current);
+    updateLayers(prev => [...prev, layer]);
+    recordPassRef.current = pass;
+    recordLayerIdRef.current = layer.id;
+    setRecordState(wasPlaying ? 'armed' : 'recording');
+
+    // Flip the state when the pass actually starts and ends, not when it is scheduled
+    const passStart = now + pass * loopSeconds - position;
+    draw(() => {
+      if (recordLayerIdRef.current === layer.id) setRecordState('recording');
+    }, Math.max(now, passStart));
+    draw(() => {
+      if (recordLayerIdRef.current !== layer.id) return;
+      recordLayerIdRef.current = null;
+      setRecordState('idle');
+      updateLayers(prev => prev.filter(other => other.id !== layer.id || other.notes.length > 0));
+    }, passStart + loopSeconds);
+  }, [start, updateLayers, draw]);
+
+  // Position in ms of the pass being recorded, or null outside it
+  const getRecordOffset = useCallback(() => {
+    const pass = recordPassRef.current;
+    if (pass === null || repeatEventRef.current === null) return null;
+    const { loopMs } = geometryRef.current;
+    return Tone.getTransport().getSecondsAtTime(Tone.immediate()) * 1000 - pass * loopMs;
+  }, []);
+
+  const noteOn = useCallback((instrument: Instrument, note: string, velocity: number) => {
+    const layerId = recordLayerIdRef.current;
+    const offset = getRecordOffset();
+    if (layerId === null || offset === null) return;
+    if (offset < 0 || offset >= geometryRef.current.loopMs) return;
+    const event: NoteEvent = {
+      instrument,
+      note,
+      timestamp: Math.round(offset),
+      duration: 0,
+      velocity,
+    };
+    heldNotes.current.set(note, { layerId, timestamp: event.timestamp });
+    updateLayers(prev => addLayerNote(prev, layerId, event));
+  }, [getRecordOffset, updateLayers]);
+
+  const noteOff = useCallback((note: string) => {
+    const held = heldNotes.current.get(note);
+    const offset = getRecordOffset();
+    if (!held || offset === null) return;
+    heldNotes.current.delete(note);
+    updateLayers(prev => releaseLayerNote(
+      prev,
+      held.layerId,
+      note,
+      held.timestamp,
+      offset,
+      geometryRef.current.loopMs,
+    ));
+  }, [getRecordOffset, updateLayers]);
+
+  const undo = useCallback(() => {
+    const last = layersRef.current[layersRef.current.length - 1];
+    if (!last) return;
+    if (last.id === recordLayerIdRef.current) cancelRecording();
+    updateLayers(prev => prev.slice(0, -1));
+  }, [cancelRecording, updateLayers]);
+
+  const toggleMute = useCallback((id: string) => {
+    updateLayers(prev => prev.map(layer => (layer.id === id ? { ...layer, muted: !layer.muted } : layer)));
+  }, [updateLayers]);
+
+  // Passes are counted in loop lengths since the start, so a running loop stops
+  // rather than change length under them. Layers are trimmed to a shorter loop,
+  // as notes past its end would never play again.
+  const changeBars = useCallback((next: number) => {
+    stop();
+    updateLayers(prev => trimLayers(prev, getLoopGeometry(next, loopTempo).loopMs));
+    setBars(next);
+  }, [stop, updateLayers, loopTempo]);
+
+  const clear = useCallback(() => {
+    cancelRecording();
+    updateLayers(() => []);
+  }, [cancelRecording, updateLayers]);
+
+  // The tempo the loop runs at, or will once started
+  const currentTempo = layers.length > 0 || isPlaying ? loopTempo : tempo;
+
+  return {
+    bars,
+    setBars: changeBars,
+    tempo: currentTempo,
+    click,
+    setClick,
+    layers,
+    isPlaying,
+    recordState,
+    beat,
+    beatsPerLoop: bars * currentTempo.timeSignature.beats,
+    start,
+    stop,
+    record,
+    undo,
+    toggleMute,
+    clear,
+    noteOn,
+    noteOff,
+    activePianoNotes,
+    activeDrumPads,
+  };
+}
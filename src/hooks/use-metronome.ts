@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Tone from 'tone';
+import { createClickSynth, DEFAULT_METRONOME_SETTINGS, playClick, type MetronomeSettings } from '@/lib/metronome';
+import { getBeatMs, type Tempo } from '@/lib/tempo';
+
+// When the take starts after the count-in
+export interface TakeStart {
+  // On the audio clock, for scheduling playback alongside the take
+  time: number;
+  // On the Date.now() clock note timestamps are measured against
+  timestamp: number;
+}
+
+const toTakeStart = (time: number): TakeStart => ({
+  time,
+  timestamp: Date.now() + (time - Tone.immediate()) * 1000,
+});
+
+/**
+ * Clicks the beat for recording. It runs on its own clock rather than the
+ * Transport, so playback and the step sequencer can keep using that.
+ */
+export function useMetronome() {
+  const [settings, setSettings] = useState<MetronomeSettings>(DEFAULT_METRONOME_SETTINGS);
+  // Beat of the bar last clicked, from 0, or null when not clicking
+  const [beat, setBeat] = useState<number | null>(null);
+  // Beats left to count in, or null once the take has started
+  const [countIn, setCountIn] = useState<number | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const clockRef = useRef<Tone.Clock | null>(null);
+  const synthRef = useRef<Tone.Synth | null>(null);
+  // Draw callbacks from a run that has since stopped must not touch state
+  const runRef = useRef(0);
+
+  const stop = useCallback(() => {
+    runRef.current++;
+    clockRef.current?.dispose();
+    clockRef.current = null;
+    setBeat(null);
+    setCountIn(null);
+  }, []);
+
+  useEffect(() => () => {
+    stop();
+    synthRef.current?.dispose();
+    synthRef.current = null;
+  }, [stop]);
+
+  /**
+   * Counts in, then keeps clicking if the click is on. Resolves with the time
+   * of the first beat after the count-in. `tempo` overrides the one in the
+   * settings, e.g. to record over tracks that already have a tempo.
+   */
+  const start = useCallback(async (tempo: Tempo = settingsRef.current.tempo): Promise<TakeStart> => {
+    stop();
+    const { countInBars, click } = settingsRef.current;
+    const countInBeats = countInBars * tempo.timeSignature.beats;
+
+    // Start audio context if needed
+    if (Tone.context.state !== 'running') {
+      await Tone.start();
+    }
+    if (countInBeats === 0 && !click) return toTakeStart(Tone.now());
+
+    const synth = synthRef.current ?? createClickSynth();
+    synthRef.current = synth;
+    const run = runRef.current;
+    const beatSeconds = getBeatMs(tempo) / 1000;
+    const draw = (callback: () => void, time: number) => {
+      Tone.getDraw().schedule(() => {
+        if (runRef.current === run) callback();
+      }, time);
+    };
+
+    const clock = new Tone.Clock((time, tick) => {
+      if (tick >= countInBeats && !click) {
+        clock.stop(time);
+        draw(() => {
+          setBeat(null);
+          setCountIn(null);
+        }, time);
+        return;
+      }
+      const beatOfBar = tick % tempo.timeSignature.beats;
+      playClick(synth, time, settingsRef.current.accent && beatOfBar === 0);
+      draw(() => {
+        setBeat(beatOfBar);
+        setCountIn(tick < countInBeats ? countInBeats - tick : null);
+      }, time);
+    }, 1 / beatSeconds);
+
+    const startTime = Tone.now();
+    clock.start(startTime);
+    clockRef.current = clock;
+    setCountIn(countInBeats > 0 ? countInBeats : null);
+    return toTakeStart(startTime + countInBeats * beatSeconds);
+  }, [stop]);
+
+  return { settings, setSettings, beat, countIn, start, stop };
+}
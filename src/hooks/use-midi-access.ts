@@ -0,0 +1,27 @@
+import { useCallback, useState } from 'react';
+import { isWebMidiSupported, requestMidiAccess } from '@/lib/web-midi';
+
+export function useMidiAccess() {
+  const [access, setAccess] = useState<MIDIAccess | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const connect = useCallback(async () => {
+    if (!isWebMidiSupported()) {
+      setError('Web MIDI is not supported in this browser.');
+      return;
+    }
+    try {
+      setAccess(await requestMidiAccess());
+      setError(null);
+    } catch {
+      setError('Access to MIDI devices was denied.');
+    }
+  }, []);
+
+  return {
+    supported: isWebMidiSupported(),
+    access,
+    connect,
+    error,
+  };
+}
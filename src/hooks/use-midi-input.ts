@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react';
+import { useMidiPorts } from '@/hooks/use-midi-ports';
+import { parseMidiMessage, type MidiNoteMessage } from '@/lib/web-midi';
+
+const getInputs = (access: MIDIAccess) => access.inputs;
+
+export function useMidiInput(access: MIDIAccess | null, onMessage: (message: MidiNoteMessage) => void) {
+  const { ports: inputs, selected, selectedId, setSelectedId } = useMidiPorts<MIDIInput>(access, getInputs);
+  // Keep the latest handler without re-binding the port listener
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  useEffect(() => {
+    if (!selected) return;
+
+    const handleMessage = (event: MIDIMessageEvent) => {
+      const message = event.data && parseMidiMessage(event.data);
+      if (message) onMessageRef.current(message);
+    };
+    selected.addEventListener('midimessage', handleMessage);
+
+    return () => selected.removeEventListener('midimessage', handleMessage);
+  }, [selected]);
+
+  return {
+    inputs,
+    selectedInputId: selectedId,
+    setSelectedInputId: setSelectedId,
+  };
+}
@@ -0,0 +1,14 @@
+import { useMidiPorts } from '@/hooks/use-midi-ports';
+
+const getOutputs = (access: MIDIAccess) => access.outputs;
+
+export function useMidiOutput(access: MIDIAccess | null) {
+  const { ports: outputs, selected, selectedId, setSelectedId } = useMidiPorts<MIDIOutput>(access, getOutputs);
+
+  return {
+    outputs,
+    output: selected,
+    selectedOutputId: selectedId,
+    setSelectedOutputId: setSelectedId,
+  };
+}
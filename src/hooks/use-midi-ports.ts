@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Lists the input or output ports of a MIDI connection, tracking devices as
+ * they are plugged in and out, and remembers which one is selected.
+ */
+export function useMidiPorts<T extends MIDIInput | MIDIOutput>(
+  access: MIDIAccess | null,
+  getPorts: (access: MIDIAccess) => MIDIInputMap | MIDIOutputMap,
+) {
+  const [ports, setPorts] = useState<T[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!access) return;
+
+    const updatePorts = () => setPorts([...getPorts(access).values()] as T[]);
+    updatePorts();
+    access.addEventListener('statechange', updatePorts);
+
+    return () => access.removeEventListener('statechange', updatePorts);
+  }, [access, getPorts]);
+
+  // Pick the first device once one shows up
+  useEffect(() => {
+    if (selectedId === null && ports.length > 0) {
+      setSelectedId(ports[0].id);
+    }
+  }, [ports, selectedId]);
+
+  const selected = ports.find(port => port.id === selectedId) ?? null;
+
+  return { ports, selected, selectedId, setSelectedId };
+}
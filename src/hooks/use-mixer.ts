@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from 'react';
+import { DEFAULT_MIXER_SETTINGS, getMixer, METER_FLOOR, type MixerLevels, type MixerSettings } from '@/lib/mixer';
+
+// How far meters fall each frame, in dB, so short peaks stay visible
+const METER_FALL = 0.75;
+
+/**
+ * Settings of the mixer every instrument plays into, applied as they change.
+ */
+export function useMixer() {
+  const [settings, setSettings] = useState<MixerSettings>(DEFAULT_MIXER_SETTINGS);
+
+  useEffect(() => {
+    getMixer().update(settings);
+  }, [settings]);
+
+  return { settings, setSettings };
+}
+
+const fall = (previous: number | undefined, level: number) => {
+  return Math.max(level, (previous ?? METER_FLOOR) - METER_FALL);
+};
+
+/**
+ * Peak levels of the mixer, read every frame while the component using this
+ * is mounted. Kept apart from `useMixer` so only the meters redraw that often.
+ */
+export function useMixerLevels() {
+  const [levels, setLevels] = useState<MixerLevels | null>(null);
+  const levelsRef = useRef<MixerLevels | null>(null);
+
+  useEffect(() => {
+    let frame = 0;
+    const read = () => {
+      const current = getMixer().getLevels();
+      const previous = levelsRef.current;
+      const next: MixerLevels = {
+        instruments: {
+          piano: fall(previous?.instruments.piano, current.instruments.piano),
+          drums: fall(previous?.instruments.drums, current.instruments.drums),
+        },
+        pads: Object.fromEntries(
+          Object.entries(current.pads).map(([name, level]) => [name, fall(previous?.pads[name], level)]),
+        ),
+        master: fall(previous?.master, current.master),
+      };
+      levelsRef.current = next;
+      setLevels(next);
+      frame = requestAnimationFrame(read);
+    };
+    frame = requestAnimationFrame(read);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return levels;
+}
@@ -0,0 +1,93 @@
+import { useCallback, useRef, useState } from 'react';
+import * as Tone from 'tone';
+import {
+  getMidiNote,
+  parseDrumNote,
+  playNoteEvent,
+  type InstrumentVoices,
+} from '@/lib/instruments';
+import type { Instrument, NoteEvent } from '@/lib/recording';
+import {
+  sendAllNotesOff,
+  sendNoteOff,
+  sendNoteOn,
+  sendsInternal,
+  sendsMidi,
+  type InstrumentRouting,
+} from '@/lib/web-midi';
+
+// Shortest time a key or pad stays lit after it is triggered
+const HIGHLIGHT_MS = 150;
+// Drum hits carry no useful length, but MIDI needs a note-off
+const MIN_MIDI_NOTE_MS = 100;
+
+// Web MIDI timestamps are on the performance.now() clock
+const toMidiTimestamp = (time: number) => performance.now() + (time - Tone.immediate()) * 1000;
+
+/**
+ * Plays note events at audio-clock times from Transport callbacks, through
+ * the given voices and/or MIDI as routed, lighting up keys and pads as each
+ * note sounds.
+ */
+export function useNoteScheduler(routing: InstrumentRouting, midiOutput: MIDIOutput | null) {
+  const [activePianoNotes, setActivePianoNotes] = useState<Set<string>>(new Set());
+  const [activeDrumPads, setActiveDrumPads] = useState<Set<string>>(new Set());
+  const routingRef = useRef(routing);
+  routingRef.current = routing;
+  const midiOutputRef = useRef(midiOutput);
+  midiOutputRef.current = midiOutput;
+
+  const highlight = useCallback((setter: typeof setActivePianoNotes, key: string, time: number, duration: number) => {
+    const draw = Tone.getDraw();
+    draw.schedule(() => setter(prev => new Set(prev).add(key)), time);
+    draw.schedule(() => {
+      setter(prev => {
+        const newSet = new Set(prev);
+        newSet.delete(key);
+        return newSet;
+      });
+    }, time + Math.max(duration, HIGHLIGHT_MS) / 1000);
+  }, []);
+
+  const schedule = useCallback((event: NoteEvent, time: number, voices: InstrumentVoices | null) => {
+    const route = routingRef.current[event.instrument];
+    if (sendsInternal(route) && voices) {
+      playNoteEvent(voices, event, time);
+    }
+
+    const output = midiOutputRef.current;
+    const midiNote = getMidiNote(event.instrument, event.note);
+    if (sendsMidi(route) && output && midiNote !== undefined) {
+      const timestamp = toMidiTimestamp(time);
+      sendNoteOn(output, route.channel, midiNote, event.velocity, timestamp);
+      sendNoteOff(output, route.channel, midiNote, timestamp + Math.max(event.duration, MIN_MIDI_NOTE_MS));
+    }
+
+    if (event.instrument === 'piano') {
+      highlight(setActivePianoNotes, event.note, time, event.duration);
+      return;
+    }
+    const drum = parseDrumNote(event.note);
+    if (drum) highlight(setActiveDrumPads, drum.name, time, 0);
+  }, [highlight]);
+
+  // Cuts held piano notes and silences external synths, after any notes
+  // already queued within the lookahead
+  const silence = useCallback((voices: InstrumentVoices[]) => {
+    voices.forEach(({ piano }) => piano?.releaseAll());
+    const output = midiOutputRef.current;
+    if (!output) return;
+    const channels = (Object.keys(routingRef.current) as Instrument[])
+      .map(instrument => routingRef.current[instrument])
+      .filter(sendsMidi)
+      .map(route => route.channel);
+    sendAllNotesOff(output, channels, performance.now() + Tone.getContext().lookAhead * 1000);
+  }, []);
+
+  const clearHighlights = useCallback(() => {
+    setActivePianoNotes(new Set());
+    setActiveDrumPads(new Set());
+  }, []);
+
+  return { schedule, silence, clearHighlights, activePianoNotes, activeDrumPads };
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type * as Tone from 'tone';
+import { useToast } from '@/hooks/use-toast';
+import { isIndexedDbSupported } from '@/lib/idb';
+import {
+  decodePadSample,
+  deletePadSample,
+  loadPadSamples,
+  PadSampleError,
+  savePadSample,
+  toToneBuffer,
+  type PadSample,
+  type PadSampleSettings,
+  type PadSampleVoices,
+} from '@/lib/pad-samples';
+
+/**
+ * The user's own samples assigned to drum pads, kept in IndexedDB so they
+ * survive a reload. Without IndexedDB they last until the page is closed.
+ */
+export function usePadSamples() {
+  const { toast } = useToast();
+  const [samples, setSamples] = useState<{ [drumName: string]: PadSample }>({});
+  const samplesRef = useRef(samples);
+  samplesRef.current = samples;
+  // Decoding to a buffer is only redone when a pad gets a new sample, not when its gain or pitch changes
+  const buffers = useRef(new WeakMap<Float32Array[], Tone.ToneAudioBuffer>());
+
+  const reportError = useCallback((title: string, error: unknown) => {
+    toast({
+      variant: 'destructive',
+      title,
+      description: error instanceof Error ? error.message : 'Something went wrong.',
+    });
+  }, [toast]);
+
+  useEffect(() => {
+    if (!isIndexedDbSupported()) return;
+    loadPadSamples()
+      .then(setSamples)
+      .catch(error => reportError('Could not load your pad samples', error));
+  }, [reportError]);
+
+  const assign = useCallback(async (drumName: string, file: File) => {
+    try {
+      const sample = await decodePadSample(file);
+      setSamples(prev => ({ ...prev, [drumName]: sample }));
+      if (isIndexedDbSupported()) await savePadSample(drumName, sample);
+    } catch (error) {
+      reportError(
+        error instanceof PadSampleError ? 'Could not use this sample' : 'Could not save the sample',
+        error,
+      );
+    }
+  }, [reportError]);
+
+  const update = useCallback((drumName: string, settings: Partial<PadSampleSettings>) => {
+    const current = samplesRef.current[drumName];
+    if (!current) return;
+    const sample = { ...current, ...settings };
+    setSamples(prev => ({ ...prev, [drumName]: sample }));
+    if (!isIndexedDbSupported()) return;
+    savePadSample(drumName, sample).catch(error => reportError('Could not save the sample', error));
+  }, [reportError]);
+
+  const remove = useCallback((drumName: string) => {
+    setSamples(prev => {
+      const { [drumName]: _removed, ...rest } = prev;
+      return rest;
+    });
+    if (!isIndexedDbSupported()) return;
+    deletePadSample(drumName).catch(error => reportError('Could not remove the sample', error));
+  }, [reportError]);
+
+  const voices = useMemo<PadSampleVoices>(() => Object.fromEntries(
+    Object.entries(samples).map(([drumName, sample]) => {
+      let buffer = buffers.current.get(sample.channels);
+      if (!buffer) {
+        buffer = toToneBuffer(sample);
+        buffers.current.set(sample.channels, buffer);
+      }
+      return [drumName, { buffer, gain: sample.gain, pitch: sample.pitch }];
+    }),
+  ), [samples]);
+
+  return { samples, voices, assign, update, remove };
+}
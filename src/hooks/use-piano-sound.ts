@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { loadPianoSamples, type PianoSamples, type PianoSound } from '@/lib/piano-samples';
+
+export type SampleLoadStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+/**
+ * Tracks which piano sound is selected, loading the samples the first time the
+ * sampled piano is chosen. If they fail to load, the synth is selected again.
+ */
+export function usePianoSound() {
+  const { toast } = useToast();
+  const [sound, setSound] = useState<PianoSound>('synth');
+  const [samples, setSamples] = useState<PianoSamples | null>(null);
+  const [status, setStatus] = useState<SampleLoadStatus>('idle');
+
+  useEffect(() => {
+    if (sound !== 'sampled' || samples) return;
+
+    let cancelled = false;
+    setStatus('loading');
+    loadPianoSamples()
+      .then(loaded => {
+        if (cancelled) return;
+        setSamples(loaded);
+        setStatus('ready');
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setStatus('error');
+        setSound('synth');
+        toast({
+          variant: 'destructive',
+          title: 'Could not load piano samples',
+          description: 'Playing the synth piano instead.',
+        });
+      });
+
+    return () => {
+      cancelled = true;
+      setStatus(prev => (prev === 'loading' ? 'idle' : prev));
+    };
+  }, [sound, samples, toast]);
+
+  return {
+    sound,
+    setSound,
+    status,
+    // Only handed to the voices once loaded, so the synth keeps playing meanwhile
+    samples: sound === 'sampled' ? samples : null,
+  };
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Tone from 'tone';
+import { useNoteScheduler } from '@/hooks/use-note-scheduler';
+import { useTrackVoices } from '@/hooks/use-track-voices';
+import { RELEASE_TAIL, type InstrumentOptions } from '@/lib/instruments';
+import type { NoteEvent } from '@/lib/recording';
+import { getArrangementDuration, isTrackAudible, type Track } from '@/lib/tracks';
+import type { InstrumentRouting } from '@/lib/web-midi';
+
+export type PlaybackState = 'stopped' | 'playing' | 'paused';
+
+interface TrackNote {
+  trackId: string;
+  event: NoteEvent;
+}
+
+// Mix changes apply while playing, but a change of notes or tracks needs a new Part
+const haveSameNotes = (a: Track[], b: Track[]) => {
+  return a.length === b.length && a.every((track, i) => track.id === b[i].id && track.notes === b[i].notes);
+};
+
+export function usePlayback(
+  tracks: Track[],
+  routing: InstrumentRouting,
+  midiOutput: MIDIOutput | null,
+  instruments: InstrumentOptions,
+) {
+  const [state, setState] = useState<PlaybackState>('stopped');
+  const { schedule, silence, clearHighlights, activePianoNotes, activeDrumPads } = useNoteScheduler(
+    routing,
+    midiOutput,
+  );
+  const trackVoicesRef = useTrackVoices(tracks, instruments);
+  // Read by the Part callback so mute and solo apply to MIDI out as well
+  const tracksRef = useRef(tracks);
+  tracksRef.current = tracks;
+  const partRef = useRef<Tone.Part | null>(null);
+  const endEventRef = useRef<number | null>(null);
+
+  const silenceTracks = useCallback(() => {
+    silence([...trackVoicesRef.current.values()].map(({ voices }) => voices));
+  }, [silence, trackVoicesRef]);
+
+  const stop = useCallback(() => {
+    const transport = Tone.getTransport();
+    // The Transport is shared with the step sequencer, so leave it alone unless a take is loaded
+    if (partRef.current) transport.stop();
+    silenceTracks();
+    if (endEventRef.current !== null) {
+      transport.clear(endEventRef.current);
+      endEventRef.current = null;
+    }
+    partRef.current?.dispose();
+    partRef.current = null;
+    clearHighlights();
+    setState('stopped');
+  }, [silenceTracks, clearHighlights]);
+
+  useEffect(() => stop, [stop]);
+
+  // Stop when the notes being played change, e.g. a track is edited or removed
+  const playedTracksRef = useRef(tracks);
+  useEffect(() => {
+    if (haveSameNotes(playedTracksRef.current, tracks)) return;
+    playedTracksRef.current = tracks;
+    stop();
+  }, [tracks, stop]);
+
+  /**
+   * Plays every track from the start. `startTime` is the audio-clock time to
+   * start at, so overdubs can line up with the end of a count-in.
+   */
+  const play = useCallback(async (startTime?: number) => {
+    const notes: TrackNote[] = tracks.flatMap(track => track.notes.map(event => ({ trackId: track.id, event })));
+    if (notes.length === 0) return;
+
+    // Start audio context if needed
+    if (Tone.context.state !== 'running') {
+      await Tone.start();
+    }
+
+    const transport = Tone.getTransport();
+    if (state === 'paused' && partRef.current) {
+      transport.start();
+      setState('playing');
+      return;
+    }
+
+    partRef.current?.dispose();
+    partRef.current = new Tone.Part((time, { trackId, event }: TrackNote) => {
+      const track = tracksRef.current.find(entry => entry.id === trackId);
+      if (!track || !isTrackAudible(track, tracksRef.current)) return;
+      schedule(event, time, trackVoicesRef.current.get(trackId)?.voices ?? null);
+    }, notes.map(note => [note.event.timestamp / 1000, note])).start(0);
+
+    const end = getArrangementDuration(tracks) / 1000 + RELEASE_TAIL;
+    endEventRef.current = transport.scheduleOnce(time => {
+      Tone.getDraw().schedule(stop, time);
+    }, end);
+
+    transport.position = 0;
+    transport.start(startTime);
+    setState('playing');
+  }, [tracks, state, schedule, stop, trackVoicesRef]);
+
+  const pause = useCallback(() => {
+    Tone.getTransport().pause();
+    silenceTracks();
+    setState('paused');
+  }, [silenceTracks]);
+
+  return { state, play, pause, stop, activePianoNotes, activeDrumPads };
+}
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { isIndexedDbSupported } from '@/lib/idb';
+import {
+  createProject,
+  deleteProject,
+  duplicateProject,
+  getStorageUsage,
+  hasProjectChanged,
+  loadProjects,
+  saveProject,
+  type Project,
+  type ProjectContent,
+  type StorageUsage,
+} from '@/lib/projects';
+
+// Edits come in bursts, e.g. while dragging a slider, so wait for a pause before saving
+const AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * The user's projects, kept in IndexedDB. One project is open at a time and
+ * is saved shortly after every change to it.
+ */
+export function useProjectLibrary() {
+  const { toast } = useToast();
+  // Most recently changed first
+  const [projects, setProjectState] = useState<Project[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  // Autosave can run twice before a render, so changes are applied here first
+  const projectsRef = useRef(projects);
+  const currentIdRef = useRef(currentId);
+  currentIdRef.current = currentId;
+  const pendingRef = useRef<Project | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const updateProjects = useCallback((update: (prev: Project[]) => Project[]) => {
+    projectsRef.current = update(projectsRef.current);
+    setProjectState(projectsRef.current);
+  }, []);
+
+  const reportError = useCallback((title: string, error: unknown) => {
+    toast({
+      variant: 'destructive',
+      title,
+      description: error instanceof Error ? error.message : 'Something went wrong.',
+    });
+  }, [toast]);
+
+  const refreshStorage = useCallback(() => {
+    getStorageUsage().then(setStorage).catch(() => setStorage(null));
+  }, []);
+
+  const persist = useCallback((project: Project) => {
+    if (!isIndexedDbSupported()) return;
+    saveProject(project)
+      .then(refreshStorage)
+      .catch(error => reportError('Could not save the project', error));
+  }, [refreshStorage, reportError]);
+
+  const flush = useCallback(() => {
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (pendingRef.current) persist(pendingRef.current);
+    pendingRef.current = null;
+  }, [persist]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const open = (loaded: Project[]) => {
+      if (cancelled) return;
+      if (loaded.length === 0) {
+        const project = createProject();
+        persist(project);
+        loaded = [project];
+      }
+      updateProjects(() => loaded);
+      setCurrentId(loaded[0].id);
+      setIsLoaded(true);
+    };
+
+    if (!isIndexedDbSupported()) {
+      open([]);
+      return;
+    }
+    loadProjects().then(open).catch(error => {
+      reportError('Could not load your projects', error);
+      open([]);
+    });
+    refreshStorage();
+    return () => {
+      cancelled = true;
+    };
+  }, [persist, updateProjects, reportError, refreshStorage]);
+
+  // Save anything still waiting when the page is closed or the library goes away
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+
+  const autosave = useCallback((content: ProjectContent) => {
+    const current = projectsRef.current.find(project => project.id === currentIdRef.current);
+    if (!current || !hasProjectChanged(current, content)) return;
+    const project = { ...current, ...content, updatedAt: Date.now() };
+    updateProjects(prev => [project, ...prev.filter(other => other.id !== project.id)]);
+    pendingRef.current = project;
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(flush, AUTOSAVE_DELAY_MS);
+  }, [updateProjects, flush]);
+
+  const open = useCallback((id: string) => {
+    flush();
+    setCurrentId(id);
+  }, [flush]);
+
+  const create = useCallback((name?: string, content?: Partial<ProjectContent>) => {
+    flush();
+    const project = createProject(name, content);
+    updateProjects(prev => [project, ...prev]);
+    persist(project);
+    setCurrentId(project.id);
+    return project;
+  }, [flush, updateProjects, persist]);
+
+  const rename = useCallback((id: string, name: string) => {
+    const existing = projectsRef.current.find(project => project.id === id);
+    if (!existing) return;
+    const project = { ...existing, name, updatedAt: Date.now() };
+    updateProjects(prev => [project, ...prev.filter(other => other.id !== id)]);
+    if (pendingRef.current?.id === id) {
+      pendingRef.current = project;
+    } else {
+      persist(project);
+    }
+  }, [updateProjects, persist]);
+
+  const duplicate = useCallback((id: string) => {
+    flush();
+    const existing = projectsRef.current.find(project => project.id === id);
+    if (!existing) return;
+    const project = duplicateProject(existing);
+    updateProjects(prev => [project, ...prev]);
+    persist(project);
+  }, [flush, updateProjects, persist]);
+
+  const remove = useCallback((id: string) => {
+    if (pendingRef.current?.id === id) pendingRef.current = null;
+    updateProjects(prev => prev.filter(project => project.id !== id));
+    if (isIndexedDbSupported()) {
+      deleteProject(id)
+        .then(refreshStorage)
+        .catch(error => reportError('Could not delete the project', error));
+    }
+    // There is always a project open, so removing the open one opens another
+    if (id !== currentIdRef.current) return;
+    const next = projectsRef.current[0] ?? createProject();
+    if (projectsRef.current.length === 0) {
+      updateProjects(() => [next]);
+      persist(next);
+    }
+    setCurrentId(next.id);
+  }, [updateProjects, refreshStorage, reportError, persist]);
+
+  return {
+    projects,
+    current: projects.find(project => project.id === currentId) ?? null,
+    isLoaded,
+    storage,
+    autosave,
+    open,
+    create,
+    rename,
+    duplicate,
+    remove,
+  };
+}
@@ -0,0 +1,63 @@
+import { useCallback } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { pianoRange } from '@/lib/instruments';
+import { decodeMidiFile, midiFileToNotes, MidiParseError, type MidiImportResult } from '@/lib/midi-file';
+import { midiToNoteName } from '@/lib/notes';
+import { createRecordingFile, parseRecordingFile, RecordingParseError, type RecordingFile } from '@/lib/recording-file';
+import { countArrangementNotes, createTakeTracks } from '@/lib/tracks';
+
+const isMidiFile = (file: File) => /\.midi?$/i.test(file.name) || file.type === 'audio/midi';
+
+const describeSkipped = (skipped: MidiImportResult['skipped']) => {
+  const piano = skipped.filter(entry => entry.instrument === 'piano');
+  const drums = skipped.filter(entry => entry.instrument === 'drums');
+  const parts: string[] = [];
+  if (piano.length > 0) {
+    parts.push(
+      `${piano.length} piano notes outside ${midiToNoteName(pianoRange.low)}–${midiToNoteName(pianoRange.high)}`
+    );
+  }
+  if (drums.length > 0) {
+    const keys = [...new Set(drums.map(entry => entry.note))].sort((a, b) => a - b);
+    parts.push(`${drums.length} drum hits with no matching pad (MIDI keys ${keys.join(', ')})`);
+  }
+  return `Skipped ${parts.join(' and ')}.`;
+};
+
+export function useRecordingImport(onImport: (recording: RecordingFile) => void) {
+  const { toast } = useToast();
+
+  return useCallback(async (file: File) => {
+    try {
+      if (isMidiFile(file)) {
+        const midi = decodeMidiFile(new Uint8Array(await file.arrayBuffer()));
+        const { notes, skipped } = midiFileToNotes(midi, pianoRange);
+        const recording = createRecordingFile(createTakeTracks(notes), { title: file.name.replace(/\.midi?$/i, '') });
+        onImport(recording);
+        toast({
+          variant: skipped.length > 0 ? 'destructive' : 'default',
+          title: skipped.length > 0 ? 'MIDI file partially imported' : 'MIDI file imported',
+          description: skipped.length > 0
+            ? `${notes.length} notes loaded. ${describeSkipped(skipped)}`
+            : `${recording.title} (${notes.length} notes)`,
+        });
+        return;
+      }
+
+      const recording = parseRecordingFile(await file.text());
+      onImport(recording);
+      toast({
+        title: 'Recording imported',
+        description: `${recording.title} (${countArrangementNotes(recording.tracks)} notes)`,
+      });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: `Could not import ${file.name}`,
+        description: error instanceof RecordingParseError || error instanceof MidiParseError
+          ? error.message
+          : 'The file could not be read.',
+      });
+    }
+  }, [onImport, toast]);
+}
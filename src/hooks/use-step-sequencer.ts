@@ -0,0 +1,141 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Tone from 'tone';
+import { useInstrumentVoices } from '@/hooks/use-instrument-voices';
+import { useNoteScheduler } from '@/hooks/use-note-scheduler';
+import { drumSounds, formatDrumNote, type InstrumentOptions } from '@/lib/instruments';
+import { DEFAULT_VELOCITY } from '@/lib/recording';
+import {
+  createEmptyPattern,
+  DEFAULT_SEQUENCER_BPM,
+  getStepDuration,
+  getSwingOffset,
+  resizePattern,
+  toggleStep,
+  type StepCount,
+} from '@/lib/step-sequencer';
+import type { InstrumentRouting } from '@/lib/web-midi';
+
+/**
+ * A looping drum pattern played on the Tone.js Transport. Pattern, tempo and
+ * swing can all be changed while it runs.
+ */
+export function useStepSequencer(
+  routing: InstrumentRouting,
+  midiOutput: MIDIOutput | null,
+  instruments: InstrumentOptions,
+) {
+  const [pattern, setPattern] = useState(() => createEmptyPattern());
+  const [bpm, setBpm] = useState(DEFAULT_SEQUENCER_BPM);
+  // 0 plays straight sixteenths, 1 a full triplet shuffle
+  const [swing, setSwing] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentStep, setCurrentStep] = useState<number | null>(null);
+  const voicesRef = useInstrumentVoices(instruments);
+  const { schedule, clearHighlights, activeDrumPads } = useNoteScheduler(routing, midiOutput);
+  // Read by the Transport callback so edits apply from the next step
+  const patternRef = useRef(pattern);
+  patternRef.current = pattern;
+  const bpmRef = useRef(bpm);
+  bpmRef.current = bpm;
+  const swingRef = useRef(swing);
+  swingRef.current = swing;
+  const repeatEventRef = useRef<number | null>(null);
+  const nextStepRef = useRef(0);
+
+  const release = useCallback(() => {
+    if (repeatEventRef.current === null) return;
+    Tone.getTransport().clear(repeatEventRef.current);
+    repeatEventRef.current = null;
+    clearHighlights();
+    setCurrentStep(null);
+    setIsPlaying(false);
+  }, [clearHighlights]);
+
+  const stop = useCallback(() => {
+    if (repeatEventRef.current === null) return;
+    Tone.getTransport().stop();
+    release();
+  }, [release]);
+
+  useEffect(() => stop, [stop]);
+
+  // Let go when something else, e.g. recording playback, stops the Transport.
+  // The event arrives a little late, so check it hasn't been restarted since.
+  useEffect(() => {
+    const transport = Tone.getTransport();
+    const handleStop = () => {
+      if (transport.state === 'stopped') release();
+    };
+    transport.on('stop', handleStop);
+    return () => {
+      transport.off('stop', handleStop);
+    };
+  }, [release]);
+
+  const start = useCallback(async () => {
+    if (repeatEventRef.current !== null) return;
+
+    // Start audio context if needed
+    if (Tone.context.state !== 'running') {
+      await Tone.start();
+    }
+
+    const transport = Tone.getTransport();
+    transport.stop();
+    transport.bpm.value = bpmRef.current;
+    nextStepRef.current = 0;
+    repeatEventRef.current = transport.scheduleRepeat(time => {
+      const current = patternRef.current;
+      const step = nextStepRef.current % current.length;
+      nextStepRef.current = step + 1;
+      const stepTime = time + getSwingOffset(step, bpmRef.current, swingRef.current);
+      const duration = Math.round(getStepDuration(bpmRef.current) * 1000);
+      drumSounds
+        .filter(drum => current.steps[drum.name]?.[step])
+        .forEach(drum => schedule({
+          instrument: 'drums',
+          note: formatDrumNote(drum),
+          timestamp: 0,
+          duration,
+          velocity: DEFAULT_VELOCITY,
+        }, stepTime, voicesRef.current));
+      Tone.getDraw().schedule(() => setCurrentStep(step), stepTime);
+    }, '16n', 0);
+
+    transport.position = 0;
+    transport.start();
+    setIsPlaying(true);
+  }, [schedule, voicesRef]);
+
+  useEffect(() => {
+    if (repeatEventRef.current !== null) Tone.getTransport().bpm.value = bpm;
+  }, [bpm]);
+
+  const toggle = useCallback((drumName: string, step: number) => {
+    setPattern(prev => toggleStep(prev, drumName, step));
+  }, []);
+
+  const setLength = useCallback((length: StepCount) => {
+    setPattern(prev => resizePattern(prev, length));
+  }, []);
+
+  const clear = useCallback(() => {
+    setPattern(prev => createEmptyPattern(prev.length));
+  }, []);
+
+  return {
+    pattern,
+    toggle,
+    setLength,
+    clear,
+    bpm,
+    setBpm,
+    swing,
+    setSwing,
+    isPlaying,
+    currentStep,
+    start,
+    stop,
+    activeDrumPads,
+  };
+}
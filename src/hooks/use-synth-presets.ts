@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { isIndexedDbSupported } from '@/lib/idb';
+import {
+  deleteSynthPreset,
+  loadSynthPresets,
+  saveSynthPreset,
+  sortSynthPresets,
+  type SynthPatch,
+  type SynthPreset,
+} from '@/lib/synth-patch';
+
+/**
+ * The user's named synth patches, kept in IndexedDB so every project can use
+ * them. Saving under an existing name replaces that preset.
+ */
+export function useSynthPresets() {
+  const { toast } = useToast();
+  const [presets, setPresets] = useState<SynthPreset[]>([]);
+
+  const reportError = useCallback((title: string, error: unknown) => {
+    toast({
+      variant: 'destructive',
+      title,
+      description: error instanceof Error ? error.message : 'Something went wrong.',
+    });
+  }, [toast]);
+
+  useEffect(() => {
+    if (!isIndexedDbSupported()) return;
+    loadSynthPresets()
+      .then(setPresets)
+      .catch(error => reportError('Could not load your synth presets', error));
+  }, [reportError]);
+
+  const save = useCallback((name: string, patch: SynthPatch) => {
+    const preset = { name, patch };
+    setPresets(prev => sortSynthPresets([...prev.filter(other => other.name !== name), preset]));
+    if (!isIndexedDbSupported()) return;
+    saveSynthPreset(preset).catch(error => reportError('Could not save the preset', error));
+  }, [reportError]);
+
+  const remove = useCallback((name: string) => {
+    setPresets(prev => prev.filter(preset => preset.name !== name));
+    if (!isIndexedDbSupported()) return;
+    deleteSynthPreset(name).catch(error => reportError('Could not delete the preset', error));
+  }, [reportError]);
+
+  return { presets, save, remove };
+}
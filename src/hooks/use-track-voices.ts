@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import type * as Tone from 'tone';
+import {
+  createInstrumentVoices,
+  disposeInstrumentVoices,
+  updateInstrumentVoices,
+  type InstrumentOptions,
+  type InstrumentVoices,
+} from '@/lib/instruments';
+import { applyTrackSettings, createTrackChannel, type Track } from '@/lib/tracks';
+
+export interface TrackVoices {
+  voices: InstrumentVoices;
+  // Volume, pan, mute and solo of the track
+  channel: Tone.Channel;
+}
+
+const disposeTrackVoices = ({ voices, channel }: TrackVoices) => {
+  disposeInstrumentVoices(voices);
+  channel.dispose();
+};
+
+/**
+ * Gives every track its own voices for its instrument, playing through its own
+ * channel, keyed by track id, adding and removing them as tracks come and go
+ * and keeping the channels in step with each track's settings.
+ */
+export function useTrackVoices(tracks: Track[], instruments: InstrumentOptions) {
+  const trackVoicesRef = useRef(new Map<string, TrackVoices>());
+  // Options every track's voices were made or last updated with
+  const appliedRef = useRef(instruments);
+
+  useEffect(() => {
+    const trackVoices = trackVoicesRef.current;
+    return () => {
+      trackVoices.forEach(disposeTrackVoices);
+      trackVoices.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    const trackVoices = trackVoicesRef.current;
+    const ids = new Set(tracks.map(track => track.id));
+    trackVoices.forEach((entry, id) => {
+      if (ids.has(id)) return;
+      disposeTrackVoices(entry);
+      trackVoices.delete(id);
+    });
+    tracks.forEach(track => {
+      const entry = trackVoices.get(track.id);
+      if (entry) {
+        applyTrackSettings(entry.channel, track);
+        return;
+      }
+      const channel = createTrackChannel(track);
+      const voices = createInstrumentVoices(appliedRef.current, channel, [track.instrument]);
+      trackVoices.set(track.id, { channel, voices });
+    });
+  }, [tracks]);
+
+  useEffect(() => {
+    if (appliedRef.current === instruments) return;
+    trackVoicesRef.current.forEach(({ voices }) => updateInstrumentVoices(voices, appliedRef.current, instruments));
+    appliedRef.current = instruments;
+  }, [instruments]);
+
+  return trackVoicesRef;
+}
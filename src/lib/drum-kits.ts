@@ -0,0 +1,93 @@
+import * as Tone from 'tone';
+import { drumSounds } from './instruments';
+
+export const DRUM_KIT_IDS = ['synth', 'acoustic', '808', '909', 'lofi'] as const;
+
+export type DrumKitId = typeof DRUM_KIT_IDS[number];
+
+export interface DrumKit {
+  name: string;
+  // Sample file for each pad, keyed by drum name; the synth kit synthesizes every pad
+  samples?: { [drumName: string]: string };
+}
+
+// The synth kit is what every recording used before kits existed
+export const DEFAULT_DRUM_KIT: DrumKitId = 'synth';
+
+export const DRUM_KITS: { [id in DrumKitId]: DrumKit } = {
+  synth: { name: 'Synth' },
+  acoustic: {
+    name: 'Acoustic',
+    samples: {
+      'Kick': 'kick.wav',
+      'Snare': 'snare.wav',
+      'Hi-Hat': 'hihat-closed.wav',
+      'Crash': 'crash.wav',
+      'Ride': 'ride.wav',
+      'Tom': 'tom-floor.wav',
+    },
+  },
+  '808': {
+    name: '808',
+    samples: {
+      'Kick': 'kick.wav',
+      'Snare': 'snare.wav',
+      'Hi-Hat': 'hihat-closed.wav',
+      'Crash': 'cymbal.wav',
+      'Ride': 'hihat-open.wav',
+      'Tom': 'tom-low.wav',
+    },
+  },
+  '909': {
+    name: '909',
+    samples: {
+      'Kick': 'kick.wav',
+      'Snare': 'snare.wav',
+      'Hi-Hat': 'hihat-closed.wav',
+      'Crash': 'crash.wav',
+      'Ride': 'ride.wav',
+      'Tom': 'tom-low.wav',
+    },
+  },
+  lofi: {
+    name: 'Lo-fi',
+    samples: {
+      'Kick': 'kick.wav',
+      'Snare': 'snare.wav',
+      'Hi-Hat': 'hihat.wav',
+      'Crash': 'crash.wav',
+      'Ride': 'ride.wav',
+      'Tom': 'tom.wav',
+    },
+  },
+};
+
+const DRUM_SAMPLE_BASE_URL = `${import.meta.env.BASE_URL}samples/drums`;
+
+// Buffers for each pad of a sampled kit, keyed by drum name
+export type DrumKitSamples = Map<string, Tone.ToneAudioBuffer>;
+
+const kitPromises = new Map<DrumKitId, Promise<DrumKitSamples>>();
+
+/**
+ * Loads the samples of a kit once; later calls share the same buffers. A
+ * failed load is not cached, so it can be retried. Resolves to null for the
+ * synth kit, which has nothing to load.
+ */
+export const loadDrumKit = (id: DrumKitId): Promise<DrumKitSamples | null> => {
+  const { samples } = DRUM_KITS[id];
+  if (!samples) return Promise.resolve(null);
+
+  let promise = kitPromises.get(id);
+  if (!promise) {
+    promise = Promise.all(drumSounds.map(async drum => {
+      const buffer = await Tone.ToneAudioBuffer.fromUrl(`${DRUM_SAMPLE_BASE_URL}/${id}/${samples[drum.name]}`);
+      return [drum.name, buffer] as const;
+    })).then(entries => new Map(entries)).catch(error => {
+      kitPromises.delete(id);
+      throw error;
+    });
+    kitPromises.set(id, promise);
+  }
+  return promise;
+};
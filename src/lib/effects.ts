@@ -0,0 +1,301 @@
+import * as Tone from 'tone';
+import type { Instrument } from './recording';
+
+export type EffectType = 'reverb' | 'delay' | 'eq' | 'compressor' | 'chorus' | 'distortion';
+
+export interface EffectParam {
+  name: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  unit?: string;
+}
+
+export interface EffectDefinition {
+  label: string;
+  params: EffectParam[];
+}
+
+// One insert in a rack; bypassed slots keep their settings but pass audio straight through
+export interface EffectSlot {
+  id: string;
+  type: EffectType;
+  bypassed: boolean;
+  params: { [name: string]: number };
+}
+
+// Each instrument's rack, in the order audio flows through it
+export type InstrumentEffects = { [instrument in Instrument]: EffectSlot[] };
+
+export const DEFAULT_INSTRUMENT_EFFECTS: InstrumentEffects = { piano: [], drums: [] };
+
+export const MAX_EFFECT_SLOTS = 8;
+
+// Share of the processed signal in the output
+const mixParam = (defaultValue: number): EffectParam => ({
+  name: 'mix',
+  label: 'Mix',
+  min: 0,
+  max: 1,
+  step: 0.01,
+  defaultValue,
+});
+
+export const EFFECTS: { [type in EffectType]: EffectDefinition } = {
+  reverb: {
+    label: 'Reverb',
+    params: [
+      { name: 'decay', label: 'Decay', min: 0.5, max: 10, step: 0.1, defaultValue: 2.5, unit: 's' },
+      mixParam(0.3),
+    ],
+  },
+  delay: {
+    label: 'Delay',
+    params: [
+      { name: 'time', label: 'Time', min: 0.05, max: 1, step: 0.01, defaultValue: 0.25, unit: 's' },
+      { name: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, defaultValue: 0.35 },
+      mixParam(0.25),
+    ],
+  },
+  eq: {
+    label: 'Filter / EQ',
+    params: [
+      { name: 'low', label: 'Low', min: -24, max: 12, step: 0.5, defaultValue: 0, unit: 'dB' },
+      { name: 'mid', label: 'Mid', min: -24, max: 12, step: 0.5, defaultValue: 0, unit: 'dB' },
+      { name: 'high', label: 'High', min: -24, max: 12, step: 0.5, defaultValue: 0, unit: 'dB' },
+      { name: 'cutoff', label: 'Low-pass', min: 200, max: 20000, step: 100, defaultValue: 20000, unit: 'Hz' },
+    ],
+  },
+  compressor: {
+    label: 'Compressor',
+    params: [
+      { name: 'threshold', label: 'Threshold', min: -60, max: 0, step: 1, defaultValue: -24, unit: 'dB' },
+      { name: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, defaultValue: 4 },
+      { name: 'attack', label: 'Attack', min: 0.001, max: 0.3, step: 0.001, defaultValue: 0.01, unit: 's' },
+      { name: 'release', label: 'Release', min: 0.01, max: 1, step: 0.01, defaultValue: 0.25, unit: 's' },
+    ],
+  },
+  chorus: {
+    label: 'Chorus',
+    params: [
+      { name: 'rate', label: 'Rate', min: 0.1, max: 10, step: 0.1, defaultValue: 1.5, unit: 'Hz' },
+      { name: 'depth', label: 'Depth', min: 0, max: 1, step: 0.01, defaultValue: 0.7 },
+      mixParam(0.5),
+    ],
+  },
+  distortion: {
+    label: 'Distortion',
+    params: [
+      { name: 'amount', label: 'Amount', min: 0, max: 1, step: 0.01, defaultValue: 0.4 },
+      mixParam(0.5),
+    ],
+  },
+};
+
+export const EFFECT_TYPES = Object.keys(EFFECTS) as EffectType[];
+
+export const createEffectSlot = (type: EffectType): EffectSlot => ({
+  id: crypto.randomUUID(),
+  type,
+  bypassed: false,
+  params: Object.fromEntries(EFFECTS[type].params.map(param => [param.name, param.defaultValue])),
+});
+
+// Moves the slot at `index` by `offset` places, staying within the rack
+export const moveEffectSlot = (slots: EffectSlot[], index: number, offset: number) => {
+  const target = Math.min(slots.length - 1, Math.max(0, index + offset));
+  const moved = [...slots];
+  moved.splice(target, 0, ...moved.splice(index, 1));
+  return moved;
+};
+
+// Seconds reverb and echoes keep sounding after the last note
+export const getEffectsTail = (effects: InstrumentEffects) => {
+  return Object.values(effects).flat().filter(slot => !slot.bypassed).reduce((tail, { type, params }) => {
+    if (type === 'reverb') return Math.max(tail, params.decay);
+    // Until the echoes have died away by 60 dB
+    if (type === 'delay' && params.feedback > 0) {
+      return Math.max(tail, Math.min(10, params.time * Math.log(0.001) / Math.log(params.feedback)));
+    }
+    return tail;
+  }, 0);
+};
+
+interface EffectNode {
+  input: Tone.InputNode;
+  output: Tone.ToneAudioNode;
+  set: (param: string, value: number) => void;
+  // Resolves once the effect makes sound, e.g. after a reverb's impulse response is generated
+  ready: () => Promise<void>;
+  dispose: () => void;
+}
+
+const NODE_FACTORIES: { [type in EffectType]: (params: EffectSlot['params']) => EffectNode } = {
+  reverb: params => {
+    const reverb = new Tone.Reverb({ decay: params.decay, wet: params.mix });
+    return {
+      input: reverb,
+      output: reverb,
+      set: (param, value) => {
+        // Setting the decay regenerates the impulse response
+        if (param === 'decay') reverb.decay = value;
+        if (param === 'mix') reverb.wet.value = value;
+      },
+      ready: () => reverb.ready,
+      dispose: () => reverb.dispose(),
+    };
+  },
+  delay: params => {
+    const delay = new Tone.FeedbackDelay({
+      delayTime: params.time,
+      feedback: params.feedback,
+      wet: params.mix,
+      maxDelay: 1,
+    });
+    return {
+      input: delay,
+      output: delay,
+      set: (param, value) => {
+        if (param === 'time') delay.delayTime.value = value;
+        if (param === 'feedback') delay.feedback.value = value;
+        if (param === 'mix') delay.wet.value = value;
+      },
+      ready: () => Promise.resolve(),
+      dispose: () => delay.dispose(),
+    };
+  },
+  eq: params => {
+    const eq = new Tone.EQ3({ low: params.low, mid: params.mid, high: params.high });
+    const filter = new Tone.Filter({ frequency: params.cutoff, type: 'lowpass' });
+    eq.connect(filter);
+    return {
+      input: eq,
+      output: filter,
+      set: (param, value) => {
+        if (param === 'low') eq.low.value = value;
+        if (param === 'mid') eq.mid.value = value;
+        if (param === 'high') eq.high.value = value;
+        if (param === 'cutoff') filter.frequency.value = value;
+      },
+      ready: () => Promise.resolve(),
+      dispose: () => {
+        eq.dispose();
+        filter.dispose();
+      },
+    };
+  },
+  compressor: params => {
+    const compressor = new Tone.Compressor({
+      threshold: params.threshold,
+      ratio: params.ratio,
+      attack: params.attack,
+      release: params.release,
+    });
+    return {
+      input: compressor,
+      output: compressor,
+      set: (param, value) => {
+        if (param === 'threshold') compressor.threshold.value = value;
+        if (param === 'ratio') compressor.ratio.value = value;
+        if (param === 'attack') compressor.attack.value = value;
+        if (param === 'release') compressor.release.value = value;
+      },
+      ready: () => Promise.resolve(),
+      dispose: () => compressor.dispose(),
+    };
+  },
+  chorus: params => {
+    // The chorus LFO only moves once started
+    const chorus = new Tone.Chorus({ frequency: params.rate, depth: params.depth, wet: params.mix }).start();
+    return {
+      input: chorus,
+      output: chorus,
+      set: (param, value) => {
+        if (param === 'rate') chorus.frequency.value = value;
+        if (param === 'depth') chorus.depth = value;
+        if (param === 'mix') chorus.wet.value = value;
+      },
+      ready: () => Promise.resolve(),
+      dispose: () => chorus.dispose(),
+    };
+  },
+  distortion: params => {
+    const distortion = new Tone.Distortion({ distortion: params.amount, wet: params.mix });
+    return {
+      input: distortion,
+      output: distortion,
+      set: (param, value) => {
+        if (param === 'amount') distortion.distortion = value;
+        if (param === 'mix') distortion.wet.value = value;
+      },
+      ready: () => Promise.resolve(),
+      dispose: () => distortion.dispose(),
+    };
+  },
+};
+
+/**
+ * The audio side of a rack: a fixed input that instruments connect to, run
+ * through every slot that isn't bypassed on its way to `destination`. Slots
+ * keep their nodes across updates, so moving a slider doesn't rebuild them.
+ */
+export class EffectChain {
+  readonly input = new Tone.Gain();
+  private slots: EffectSlot[] = [];
+  private readonly nodes = new Map<string, EffectNode>();
+  private isConnected = false;
+
+  constructor(private readonly destination: Tone.InputNode, slots: EffectSlot[] = []) {
+    this.update(slots);
+  }
+
+  update(slots: EffectSlot[]) {
+    const previous = new Map(this.slots.map(slot => [slot.id, slot]));
+    const routing = (list: EffectSlot[]) => list.filter(slot => !slot.bypassed).map(slot => slot.id).join();
+    const isRerouted = !this.isConnected || routing(this.slots) !== routing(slots);
+
+    this.nodes.forEach((node, id) => {
+      if (slots.some(slot => slot.id === id)) return;
+      node.dispose();
+      this.nodes.delete(id);
+    });
+    slots.forEach(slot => {
+      const node = this.nodes.get(slot.id);
+      if (!node) {
+        this.nodes.set(slot.id, NODE_FACTORIES[slot.type](slot.params));
+        return;
+      }
+      const before = previous.get(slot.id)?.params ?? {};
+      Object.entries(slot.params).forEach(([param, value]) => {
+        if (before[param] !== value) node.set(param, value);
+      });
+    });
+    this.slots = slots;
+    if (isRerouted) this.connect();
+  }
+
+  private connect() {
+    this.input.disconnect();
+    this.nodes.forEach(node => node.output.disconnect());
+    const chain = this.slots.filter(slot => !slot.bypassed).map(slot => this.nodes.get(slot.id));
+    let output: Tone.ToneAudioNode = this.input;
+    chain.forEach(node => {
+      output.connect(node.input);
+      output = node.output;
+    });
+    output.connect(this.destination);
+    this.isConnected = true;
+  }
+
+  ready() {
+    return Promise.all([...this.nodes.values()].map(node => node.ready())).then(() => undefined);
+  }
+
+  dispose() {
+    this.input.dispose();
+    this.nodes.forEach(node => node.dispose());
+    this.nodes.clear();
+  }
+}
@@ -0,0 +1,52 @@
+const DATABASE_NAME = 'soundspace';
+// Bump when adding a store below; opening creates whichever stores are missing
+const DATABASE_VERSION = 3;
+const STORES = ['padSamples', 'projects', 'synthPresets'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const toPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const isIndexedDbSupported = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      STORES
+        .filter(name => !request.result.objectStoreNames.contains(name))
+        .forEach(name => request.result.createObjectStore(name));
+    };
+    databasePromise = toPromise(request).catch(error => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
+
+const withStore = async <T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const database = await openDatabase();
+  return toPromise(run(database.transaction(name, mode).objectStore(name)));
+};
+
+export const getAllEntries = async <T>(name: StoreName): Promise<[string, T][]> => {
+  const database = await openDatabase();
+  // Both requests run in one transaction, so keys and values line up
+  const store = database.transaction(name, 'readonly').objectStore(name);
+  const [keys, values] = await Promise.all([toPromise(store.getAllKeys()), toPromise(store.getAll())]);
+  return keys.map((key, i) => [String(key), values[i] as T]);
+};
+
+export const putEntry = async <T>(name: StoreName, key: string, value: T) => {
+  await withStore(name, 'readwrite', store => store.put(value, key));
+};
+
+export const deleteEntry = async (name: StoreName, key: string) => {
+  await withStore(name, 'readwrite', store => store.delete(key));
+};
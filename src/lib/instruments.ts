@@ -0,0 +1,284 @@
+import * as Tone from 'tone';
+import type { DrumKitSamples } from './drum-kits';
+import { DEFAULT_INSTRUMENT_EFFECTS, EffectChain, type InstrumentEffects } from './effects';
+import { getMixer, type PadStrips } from './mixer';
+import { noteNameToMidi } from './notes';
+import type { PadSampleVoice, PadSampleVoices } from './pad-samples';
+import { SampleVoice, type PianoSamples } from './piano-samples';
+import type { Instrument, NoteEvent } from './recording';
+import { DEFAULT_SYNTH_PATCH, SynthVoice, type SynthPatch } from './synth-patch';
+import { VoiceManager, type Voice, type VoiceOptions } from './voice-manager';
+
+export interface DrumSound {
+  name: string;
+  key: string;
+  color: string;
+  note: string;
+  // General MIDI percussion key used for MIDI import/export
+  gmNote: number;
+}
+
+export const drumSounds: DrumSound[] = [
+  { name: 'Kick', key: 's', color: 'from-red-500 to-red-600', note: 'C2', gmNote: 36 },
+  { name: 'Snare', key: 'd', color: 'from-orange-500 to-orange-600', note: 'D2', gmNote: 38 },
+  { name: 'Hi-Hat', key: 'f', color: 'from-yellow-500 to-yellow-600', note: 'F#2', gmNote: 42 },
+  { name: 'Crash', key: 'g', color: 'from-green-500 to-green-600', note: 'A#2', gmNote: 49 },
+  { name: 'Ride', key: 'h', color: 'from-blue-500 to-blue-600', note: 'C3', gmNote: 51 },
+  { name: 'Tom', key: 'j', color: 'from-purple-500 to-purple-600', note: 'E3', gmNote: 45 },
+];
+
+// MIDI note numbers of the lowest and highest keys of the Piano (A0-C8)
+export const pianoRange = { low: 21, high: 108 };
+
+export type DrumSynth = Tone.MembraneSynth | Tone.MetalSynth | Tone.NoiseSynth | Tone.Sampler;
+
+// Sampled pads hold a single one-shot at this key and play it unpitched
+const DRUM_SAMPLE_NOTE = 'C4';
+
+export type PianoSynth = VoiceManager;
+
+export interface PianoOptions {
+  voices: VoiceOptions;
+  // Loaded samples to play the sampled piano with, or null for the synth
+  samples: PianoSamples | null;
+  // How the synth sounds when there are no samples
+  patch: SynthPatch;
+}
+
+export const createPianoSynth = (
+  options?: PianoOptions,
+  destination: Tone.InputNode = Tone.getDestination(),
+): PianoSynth => {
+  const samples = options?.samples;
+  const patch = options?.patch ?? DEFAULT_SYNTH_PATCH;
+  const piano = new VoiceManager<Voice>(
+    samples ? context => new SampleVoice(context, samples) : context => new SynthVoice(context, patch),
+    options?.voices,
+  );
+  piano.output.connect(destination);
+  return piano;
+};
+
+// Where each drum pad is connected, by drum name
+type PadDestination = (name: string) => Tone.InputNode;
+
+// Different synths for different drum sounds, keyed by drum name
+const createSynthesizedDrums = (destination: PadDestination): { [name: string]: DrumSynth } => ({
+  'Kick': new Tone.MembraneSynth({
+    pitchDecay: 0.05,
+    octaves: 10,
+    oscillator: { type: 'sine' },
+    envelope: { attack: 0.001, decay: 0.4, sustain: 0.01, release: 1.4 }
+  }).connect(destination('Kick')),
+  'Snare': new Tone.NoiseSynth({
+    noise: { type: 'white', playbackRate: 3 },
+    envelope: { attack: 0.001, decay: 0.2, sustain: 0 }
+  }).connect(destination('Snare')),
+  'Hi-Hat': new Tone.MetalSynth({
+    envelope: { attack: 0.001, decay: 0.1, release: 0.2 },
+    harmonicity: 5.1,
+    modulationIndex: 32,
+    resonance: 4000,
+    octaves: 1.5
+  }).connect(destination('Hi-Hat')),
+  'Crash': new Tone.MetalSynth({
+    envelope: { attack: 0.001, decay: 1, release: 3 },
+    harmonicity: 3.1,
+    modulationIndex: 16,
+    resonance: 4000,
+    octaves: 1.5
+  }).connect(destination('Crash')),
+  'Ride': new Tone.MetalSynth({
+    envelope: { attack: 0.001, decay: 0.4, release: 0.8 },
+    harmonicity: 4.1,
+    modulationIndex: 12,
+    resonance: 3000,
+    octaves: 1.5
+  }).connect(destination('Ride')),
+  'Tom': new Tone.MembraneSynth({
+    pitchDecay: 0.008,
+    octaves: 2,
+    oscillator: { type: 'triangle' },
+    envelope: { attack: 0.001, decay: 0.7, sustain: 0.1, release: 1.2 }
+  }).connect(destination('Tom')),
+});
+
+// The sample is mapped below the key pads are triggered at, so Tone.Sampler
+// repitches it up by `pitch` semitones
+const createPadSampler = ({ buffer, gain, pitch }: PadSampleVoice, destination: Tone.InputNode) => {
+  const key = Tone.Frequency(DRUM_SAMPLE_NOTE).toMidi() - pitch;
+  return new Tone.Sampler({ urls: { [key]: buffer }, volume: gain }).connect(destination);
+};
+
+/**
+ * Plays the loaded samples of a kit, or synthesizes every pad when there are
+ * none. Pads the user assigned their own sample to play that instead.
+ */
+export const createDrumSynths = (
+  samples?: DrumKitSamples | null,
+  padSamples: PadSampleVoices = {},
+  destination: PadDestination = () => Tone.getDestination(),
+): { [name: string]: DrumSynth } => {
+  const kit: { [name: string]: DrumSynth } = samples
+    ? Object.fromEntries(drumSounds.map(drum => [
+      drum.name,
+      new Tone.Sampler({ urls: { [DRUM_SAMPLE_NOTE]: samples.get(drum.name) } }).connect(destination(drum.name)),
+    ]))
+    : createSynthesizedDrums(destination);
+
+  Object.entries(padSamples).forEach(([name, padSample]) => {
+    kit[name]?.dispose();
+    kit[name] = createPadSampler(padSample, destination(name));
+  });
+  return kit;
+};
+
+export const triggerDrum = (synth: DrumSynth, note: string, time?: Tone.Unit.Time, velocity?: number) => {
+  // Different trigger methods for different synth types
+  if (synth instanceof Tone.Sampler) {
+    // One-shots play to the end of the sample
+    synth.triggerAttack(DRUM_SAMPLE_NOTE, time, velocity);
+  } else if (synth instanceof Tone.NoiseSynth) {
+    synth.triggerAttackRelease('8n', time, velocity);
+  } else {
+    synth.triggerAttackRelease(note, '8n', time, velocity);
+  }
+};
+
+// Drum hits are recorded as "<drum name>-<note>", e.g. "Hi-Hat-F#2"
+export const formatDrumNote = (drum: DrumSound) => `${drum.name}-${drum.note}`;
+
+export const parseDrumNote = (value: string) => {
+  const separator = value.lastIndexOf('-');
+  if (separator <= 0) return undefined;
+  const name = value.slice(0, separator);
+  return drumSounds.find(d => d.name === name);
+};
+
+// MIDI note number for a recorded note; drums use General MIDI percussion keys
+export const getMidiNote = (instrument: Instrument, note: string) => {
+  if (instrument === 'drums') {
+    return parseDrumNote(note)?.gmNote;
+  }
+  return noteNameToMidi(note);
+};
+
+// Seconds to let the last note ring out after a recording ends
+export const RELEASE_TAIL = 1.5;
+
+// Only the instruments the voices were made for are present, e.g. a track's
+// voices hold just the track's own instrument
+export interface InstrumentVoices {
+  piano?: PianoSynth;
+  drums?: { [name: string]: DrumSynth };
+  // Each instrument's effects, which every voice is connected through,
+  // including ones swapped in later
+  effects: { [instrument in Instrument]?: EffectChain };
+  // Mixer strips the drums pass through before their effects
+  pads?: PadStrips;
+}
+
+const ALL_INSTRUMENTS: Instrument[] = ['piano', 'drums'];
+
+export interface InstrumentOptions {
+  piano: PianoOptions;
+  // Loaded samples of the drum kit, or null for the synth kit
+  drumSamples: DrumKitSamples | null;
+  padSamples: PadSampleVoices;
+  effects: InstrumentEffects;
+}
+
+/**
+ * Creates a piano and drum kit, or just the `instruments` given, that play
+ * through their effects into `destination`, such as a track's channel, or else
+ * into the mixer strip of each instrument.
+ */
+export const createInstrumentVoices = (
+  options?: InstrumentOptions,
+  destination?: Tone.InputNode,
+  instruments = ALL_INSTRUMENTS,
+): InstrumentVoices => {
+  const mixer = getMixer();
+  const effects = options?.effects ?? DEFAULT_INSTRUMENT_EFFECTS;
+  const voices: InstrumentVoices = { effects: {} };
+  if (instruments.includes('piano')) {
+    const chain = new EffectChain(destination ?? mixer.inputs.piano, effects.piano);
+    voices.effects.piano = chain;
+    voices.piano = createPianoSynth(options?.piano, chain.input);
+  }
+  if (instruments.includes('drums')) {
+    const chain = new EffectChain(destination ?? mixer.inputs.drums, effects.drums);
+    const pads = mixer.createPadStrips(chain.input);
+    voices.effects.drums = chain;
+    voices.pads = pads;
+    voices.drums = createDrumSynths(options?.drumSamples, options?.padSamples, name => pads.input(name));
+  }
+  return voices;
+};
+
+export const disposeInstrumentVoices = (voices: InstrumentVoices) => {
+  voices.piano?.dispose();
+  Object.values(voices.drums ?? {}).forEach(synth => synth.dispose());
+  Object.values(voices.effects).forEach(chain => chain.dispose());
+  voices.pads?.dispose();
+};
+
+// Resolves once the effects make sound, which offline rendering has to wait for
+export const whenInstrumentVoicesReady = (voices: InstrumentVoices) => {
+  return Promise.all(Object.values(voices.effects).map(chain => chain.ready()));
+};
+
+// Switches piano engines, letting notes on the old one ring out before it is dropped
+export const replacePianoSynth = (voices: InstrumentVoices, piano: PianoOptions) => {
+  const previous = voices.piano;
+  if (!previous) return;
+  previous.releaseAll();
+  voices.piano = createPianoSynth(piano, voices.effects.piano.input);
+  setTimeout(() => previous.dispose(), RELEASE_TAIL * 1000);
+};
+
+// Switches drum kits; one-shots already playing on the old kit finish first
+export const replaceDrumSynths = (
+  voices: InstrumentVoices,
+  samples: DrumKitSamples | null,
+  padSamples: PadSampleVoices,
+) => {
+  const previous = voices.drums;
+  if (!previous) return;
+  voices.drums = createDrumSynths(samples, padSamples, name => voices.pads.input(name));
+  setTimeout(() => Object.values(previous).forEach(synth => synth.dispose()), RELEASE_TAIL * 1000);
+};
+
+// Brings voices made with `previous` options in line with `next`, swapping only what changed
+export const updateInstrumentVoices = (
+  voices: InstrumentVoices,
+  previous: InstrumentOptions,
+  next: InstrumentOptions,
+) => {
+  // Synth voices take their patch when created, so a new patch needs new voices
+  const isNewPatch = !next.piano.samples && previous.piano.patch !== next.piano.patch;
+  if (previous.piano.samples !== next.piano.samples || isNewPatch) {
+    replacePianoSynth(voices, next.piano);
+  } else if (previous.piano.voices !== next.piano.voices) {
+    voices.piano?.configure(next.piano.voices);
+  }
+  if (previous.drumSamples !== next.drumSamples || previous.padSamples !== next.padSamples) {
+    replaceDrumSynths(voices, next.drumSamples, next.padSamples);
+  }
+  if (previous.effects !== next.effects) {
+    voices.effects.piano?.update(next.effects.piano);
+    voices.effects.drums?.update(next.effects.drums);
+  }
+};
+
+// Plays a recorded event at `time`
+export const playNoteEvent = (voices: InstrumentVoices, event: NoteEvent, time: Tone.Unit.Time) => {
+  if (event.instrument === 'piano') {
+    voices.piano?.triggerAttackRelease(event.note, event.duration / 1000, time, event.velocity);
+    return;
+  }
+
+  const drum = parseDrumNote(event.note);
+  const synth = drum && voices.drums?.[drum.name];
+  if (synth) triggerDrum(synth, drum.note, time, event.velocity);
+};
@@ -0,0 +1,59 @@
+import { midiToNoteName } from './notes';
+
+export interface PianoKey {
+  note: string;
+  midi: number;
+  isBlack: boolean;
+  // Index among white keys; a black key shares the index of the white key to its left
+  whiteIndex: number;
+}
+
+const BLACK_PITCH_CLASSES = new Set([1, 3, 6, 8, 10]);
+
+export const createKeyboardLayout = (low: number, high: number): PianoKey[] => {
+  const keys: PianoKey[] = [];
+  let whiteIndex = -1;
+  for (let midi = low; midi <= high; midi++) {
+    const isBlack = BLACK_PITCH_CLASSES.has(midi % 12);
+    if (!isBlack) whiteIndex++;
+    keys.push({ note: midiToNoteName(midi), midi, isBlack, whiteIndex: Math.max(whiteIndex, 0) });
+  }
+  return keys;
+};
+
+// Computer keys laid out like a piano: the home row plays white keys from C,
+// the row above plays the black keys in between
+const WHITE_KEY_ROW = ['a', 's', 'd', 'f', 'g', 'h', 'j', 'k'];
+const WHITE_KEY_OFFSETS = [0, 2, 4, 5, 7, 9, 11, 12];
+const BLACK_KEY_ROW: { [key: string]: number } = { 'w': 1, 'e': 3, 't': 6, 'y': 8, 'u': 10 };
+
+export const OCTAVE_DOWN_KEY = 'z';
+export const OCTAVE_UP_KEY = 'x';
+export const DEFAULT_OCTAVE = 4;
+
+/**
+ * Maps computer keys to notes with the home row starting at C of `octave`.
+ * Notes outside `low`-`high` are left unmapped.
+ */
+export const createKeyboardMapping = (octave: number, low: number, high: number) => {
+  const base = (octave + 1) * 12;
+  const mapping: { [key: string]: string } = {};
+  const assign = (key: string, midi: number) => {
+    if (midi >= low && midi <= high) mapping[key] = midiToNoteName(midi);
+  };
+  WHITE_KEY_ROW.forEach((key, i) => assign(key, base + WHITE_KEY_OFFSETS[i]));
+  Object.entries(BLACK_KEY_ROW).forEach(([key, offset]) => assign(key, base + offset));
+  return mapping;
+};
+
+// Octaves the mapping can shift between while every mapped key stays in or near range
+export const getOctaveBounds = (low: number, high: number) => ({
+  min: Math.floor(low / 12) - 1,
+  max: Math.floor((high - 12) / 12) - 1,
+});
+
+// Keys typed into a form field are meant for it, not the instruments
+export const isEditableTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
@@ -0,0 +1,85 @@
+import type { NoteEvent } from './recording';
+import { getBarMs, getWholeNoteMs, type Tempo } from './tempo';
+
+// One pass of playing, repeated every time round the loop. Timestamps are ms
+// from the start of the loop.
+export interface LoopLayer {
+  id: string;
+  name: string;
+  notes: NoteEvent[];
+  muted: boolean;
+}
+
+export const LOOP_BAR_OPTIONS = [1, 2, 4, 8] as const;
+
+export const DEFAULT_LOOP_BARS = 2;
+
+// The loop is played a sixteenth note at a time, so mutes and new notes apply
+// within a sixteenth rather than from the next time round
+export interface LoopGeometry {
+  loopMs: number;
+  sliceMs: number;
+  slices: number;
+  // Slices per beat of the time signature
+  beatSlices: number;
+  beatsPerBar: number;
+}
+
+export const getLoopGeometry = (bars: number, tempo: Tempo): LoopGeometry => {
+  const sliceMs = getWholeNoteMs(tempo) / 16;
+  const loopMs = bars * getBarMs(tempo);
+  return {
+    loopMs,
+    sliceMs,
+    slices: Math.round(loopMs / sliceMs),
+    beatSlices: 16 / tempo.timeSignature.beatUnit,
+    beatsPerBar: tempo.timeSignature.beats,
+  };
+};
+
+export const createLoopLayer = (existing: LoopLayer[]): LoopLayer => ({
+  id: crypto.randomUUID(),
+  name: `Layer ${existing.length + 1}`,
+  notes: [],
+  muted: false,
+});
+
+// Notes of `layer` starting within the slice beginning `start` ms into the loop
+export const getSliceNotes = (layer: LoopLayer, start: number, sliceMs: number) => {
+  return layer.notes.filter(event => event.timestamp >= start && event.timestamp < start + sliceMs);
+};
+
+export const addLayerNote = (layers: LoopLayer[], id: string, event: NoteEvent) => {
+  return layers.map(layer => (layer.id === id ? { ...layer, notes: [...layer.notes, event] } : layer));
+};
+
+// Ends a held note, cutting it off at the end of the loop
+export const releaseLayerNote = (
+  layers: LoopLayer[],
+  id: string,
+  note: string,
+  timestamp: number,
+  releasedAt: number,
+  loopMs: number,
+) => {
+  const duration = Math.max(0, Math.min(releasedAt, loopMs) - timestamp);
+  return layers.map(layer => (layer.id === id
+    ? {
+      ...layer,
+      notes: layer.notes.map(event => (
+        event.note === note && event.timestamp === timestamp ? { ...event, duration } : event
+      )),
+    }
+    : layer));
+};
+
+// Fits layers to a shorter loop: notes starting past the end are dropped and
+// notes running past it are cut off there
+export const trimLayers = (layers: LoopLayer[], loopMs: number) => {
+  return layers.map(layer => ({
+    ...layer,
+    notes: layer.notes
+      .filter(event => event.timestamp < loopMs)
+      .map(event => ({ ...event, duration: Math.min(event.duration, loopMs - event.timestamp) })),
+  }));
+};
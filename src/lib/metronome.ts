@@ -0,0 +1,36 @@
+import * as Tone from 'tone';
+import { DEFAULT_TEMPO, type Tempo } from './tempo';
+
+export interface MetronomeSettings {
+  tempo: Tempo;
+  // Keep clicking through the recording, not just the count-in
+  click: boolean;
+  // Play the first beat of each bar higher
+  accent: boolean;
+  countInBars: number;
+}
+
+export const COUNT_IN_OPTIONS = [0, 1, 2];
+
+// Start with no click and no count-in, so Record starts capturing at once
+export const DEFAULT_METRONOME_SETTINGS: MetronomeSettings = {
+  tempo: DEFAULT_TEMPO,
+  click: false,
+  accent: true,
+  countInBars: 0,
+};
+
+const ACCENT_NOTE = 'A6';
+const BEAT_NOTE = 'A5';
+// Seconds
+const CLICK_LENGTH = 0.03;
+
+export const createClickSynth = () => new Tone.Synth({
+  oscillator: { type: 'square' },
+  envelope: { attack: 0.001, decay: CLICK_LENGTH, sustain: 0, release: 0.01 },
+  volume: -12,
+}).toDestination();
+
+export const playClick = (synth: Tone.Synth, time: number, accent: boolean) => {
+  synth.triggerAttackRelease(accent ? ACCENT_NOTE : BEAT_NOTE, CLICK_LENGTH, time, accent ? 1 : 0.6);
+};
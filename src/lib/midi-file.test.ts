@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { drumSounds, formatDrumNote, pianoRange } from './instruments';
+import { decodeMidiFile, encodeMidiFile, midiFileToNotes, MidiParseError } from './midi-file';
+import type { NoteEvent } from './recording';
+
+const notes: NoteEvent[] = [
+  { instrument: 'piano', note: 'C4', timestamp: 0, duration: 500, velocity: 1 },
+  { instrument: 'drums', note: formatDrumNote(drumSounds[0]), timestamp: 250, duration: 250, velocity: 0.5 },
+  { instrument: 'piano', note: 'F#5', timestamp: 1000, duration: 125, velocity: 0.25 },
+];
+
+// "MThd", then the header length, format, track count and division
+const header = (division: number) => new Uint8Array([
+  0x4d, 0x54, 0x68, 0x64,
+  0, 0, 0, 6,
+  0, 1,
+  0, 0,
+  division >> 8, division & 0xff,
+]);
+
+const roundTrip = (events: NoteEvent[], options?: Parameters<typeof encodeMidiFile>[1]) => {
+  return midiFileToNotes(decodeMidiFile(encodeMidiFile(events, options)), pianoRange);
+};
+
+describe('encodeMidiFile and decodeMidiFile', () => {
+  it('round-trips piano notes and drum hits', () => {
+    const { notes: decoded, skipped } = roundTrip(notes);
+    expect(skipped).toEqual([]);
+    expect(decoded).toHaveLength(notes.length);
+    decoded.forEach((event, i) => {
+      expect(event.instrument).toBe(notes[i].instrument);
+      expect(event.note).toBe(notes[i].note);
+      expect(event.timestamp).toBeCloseTo(notes[i].timestamp, 0);
+      expect(event.duration).toBeCloseTo(notes[i].duration, 0);
+      expect(event.velocity).toBeCloseTo(notes[i].velocity, 1);
+    });
+  });
+
+  it('keeps timing at other tempos and resolutions', () => {
+    const { notes: decoded } = roundTrip(notes, { bpm: 90, ppq: 96 });
+    expect(decoded.map(event => Math.round(event.timestamp))).toEqual([0, 250, 1000]);
+  });
+
+  it('writes the resolution and one track per instrument after the conductor track', () => {
+    const midi = decodeMidiFile(encodeMidiFile(notes, { ppq: 192 }));
+    expect(midi.format).toBe(1);
+    expect(midi.ppq).toBe(192);
+    expect(midi.tracks).toHaveLength(3);
+  });
+
+  it('gives drum hits a minimum length', () => {
+    const hit = { ...notes[1], duration: 0 };
+    expect(roundTrip([hit]).notes[0].duration).toBeGreaterThan(0);
+  });
+
+  it('reports notes outside the piano range as skipped', () => {
+    const { notes: decoded, skipped } = midiFileToNotes(
+      decodeMidiFile(encodeMidiFile(notes)),
+      { low: 60, high: 72 },
+    );
+    expect(decoded.map(event => event.note)).toEqual(['C4', formatDrumNote(drumSounds[0])]);
+    expect(skipped).toEqual([{ instrument: 'piano', note: 78 }]);
+  });
+});
+
+describe('decodeMidiFile', () => {
+  it('rejects data that is not a Standard MIDI File', () => {
+    expect(() => decodeMidiFile(new TextEncoder().encode('not a midi file'))).toThrow(MidiParseError);
+  });
+
+  it('rejects SMPTE time division', () => {
+    expect(() => decodeMidiFile(header(0xe728))).toThrow('SMPTE time division is not supported.');
+  });
+
+  it('rejects a time division of zero', () => {
+    expect(() => decodeMidiFile(header(0))).toThrow(MidiParseError);
+  });
+
+  it('rejects truncated tracks', () => {
+    const bytes = encodeMidiFile(notes);
+    expect(() => decodeMidiFile(bytes.subarray(0, bytes.length - 5))).toThrow(MidiParseError);
+  });
+});
@@ -0,0 +1,359 @@
+import { drumSounds, formatDrumNote, getMidiNote } from './instruments';
+import { midiToNoteName, toMidiVelocity } from './notes';
+import type { Instrument, NoteEvent } from './recording';
+import { DEFAULT_TEMPO, type TimeSignature } from './tempo';
+
+export const DEFAULT_MIDI_BPM = 120;
+export const DEFAULT_MIDI_PPQ = 480;
+export const MIDI_PPQ_OPTIONS = [96, 192, 480, 960];
+
+// Channels are zero-based on the wire; General MIDI percussion is channel 10
+export const GM_DRUM_CHANNEL = 9;
+
+export interface MidiExportOptions {
+  // Quarter notes per minute
+  bpm?: number;
+  ppq?: number;
+  timeSignature?: TimeSignature;
+}
+
+interface TrackEvent {
+  tick: number;
+  data: number[];
+}
+
+const INSTRUMENT_TRACKS: { [instrument in Instrument]: { name: string; channel: number; program?: number } } = {
+  piano: { name: 'Piano', channel: 0, program: 0 },
+  drums: { name: 'Drums', channel: GM_DRUM_CHANNEL },
+};
+
+const encodeVariableLength = (value: number) => {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+};
+
+const encodeText = (text: string) => Array.from(new TextEncoder().encode(text));
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+
+const metaEvent = (type: number, data: number[]) => [0xff, type, ...encodeVariableLength(data.length), ...data];
+
+const encodeChunk = (type: string, data: number[]) => [...encodeText(type), ...uint32(data.length), ...data];
+
+const encodeTrack = (events: TrackEvent[]) => {
+  // Stable sort keeps note-offs ahead of note-ons that share a tick
+  const sorted = [...events].sort((a, b) => a.tick - b.tick);
+  const data: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(event => {
+    data.push(...encodeVariableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  });
+  data.push(0x00, ...metaEvent(0x2f, []));
+  return encodeChunk('MTrk', data);
+};
+
+/**
+ * Writes a Type 1 Standard MIDI File: a conductor track carrying tempo and
+ * time signature, followed by one track per instrument in the recording.
+ */
+export const encodeMidiFile = (notes: NoteEvent[], options: MidiExportOptions = {}) => {
+  const bpm = options.bpm ?? DEFAULT_MIDI_BPM;
+  const ppq = options.ppq ?? DEFAULT_MIDI_PPQ;
+  const { beats, beatUnit } = options.timeSignature ?? DEFAULT_TEMPO.timeSignature;
+  const msToTicks = (ms: number) => Math.round((ms / 1000) * (bpm / 60) * ppq);
+  // One-shot drum hits still need a note-off; give them a sixteenth note
+  const minimumDrumTicks = Math.round(ppq / 4);
+
+  const microsecondsPerBeat = Math.round(60_000_000 / bpm);
+  const conductor = encodeTrack([
+    { tick: 0, data: metaEvent(0x03, encodeText('SoundSpace')) },
+    { tick: 0, data: metaEvent(0x51, uint32(microsecondsPerBeat).slice(1)) },
+    // The denominator is stored as a power of two
+    { tick: 0, data: metaEvent(0x58, [beats, Math.log2(beatUnit), 24, 8]) },
+  ]);
+
+  const instruments = (Object.keys(INSTRUMENT_TRACKS) as Instrument[])
+    .filter(instrument => notes.some(event => event.instrument === instrument));
+
+  const tracks = instruments.map(instrument => {
+    const { name, channel, program } = INSTRUMENT_TRACKS[instrument];
+    const offs: TrackEvent[] = [];
+    const ons: TrackEvent[] = [{ tick: 0, data: metaEvent(0x03, encodeText(name)) }];
+    if (program !== undefined) {
+      ons.push({ tick: 0, data: [0xc0 | channel, program] });
+    }
+
+    notes.filter(event => event.instrument === instrument).forEach(event => {
+      const midiNote = getMidiNote(event.instrument, event.note);
+      if (midiNote === undefined) return;
+      const start = msToTicks(event.timestamp);
+      const length = Math.max(msToTicks(event.duration), instrument === 'drums' ? minimumDrumTicks : 1);
+      ons.push({ tick: start, data: [0x90 | channel, midiNote, toMidiVelocity(event.velocity)] });
+      offs.push({ tick: start + length, data: [0x80 | channel, midiNote, 0x40] });
+    });
+
+    return encodeTrack([...offs, ...ons]);
+  });
+
+  const header = encodeChunk('MThd', [...uint16(1), ...uint16(tracks.length + 1), ...uint16(ppq)]);
+  return new Uint8Array([...header, ...conductor, ...tracks.flat()]);
+};
+
+export class MidiParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MidiParseError';
+  }
+}
+
+export type MidiEvent =
+  | { tick: number; type: 'noteOn' | 'noteOff'; channel: number; note: number; velocity: number }
+  | { tick: number; type: 'tempo'; microsecondsPerBeat: number }
+  | { tick: number; type: 'other' };
+
+export interface MidiFile {
+  format: number;
+  ppq: number;
+  tracks: MidiEvent[][];
+}
+
+// Bytes of data following each channel voice status (upper nibble)
+const CHANNEL_DATA_LENGTH: { [status: number]: number } = {
+  0x80: 2, 0x90: 2, 0xa0: 2, 0xb0: 2, 0xc0: 1, 0xd0: 1, 0xe0: 2,
+};
+
+class ByteReader {
+  position = 0;
+
+  constructor(private readonly bytes: Uint8Array, private readonly end = bytes.length) {}
+
+  get done() {
+    return this.position >= this.end;
+  }
+
+  byte() {
+    if (this.position >= this.end) {
+      throw new MidiParseError('Unexpected end of MIDI data.');
+    }
+    return this.bytes[this.position++];
+  }
+
+  skip(length: number) {
+    if (this.position + length > this.end) {
+      throw new MidiParseError('Unexpected end of MIDI data.');
+    }
+    this.position += length;
+  }
+
+  bytesOf(length: number) {
+    const start = this.position;
+    this.skip(length);
+    return this.bytes.subarray(start, start + length);
+  }
+
+  uint16() {
+    return (this.byte() << 8) | this.byte();
+  }
+
+  uint32() {
+    return ((this.byte() << 24) | (this.byte() << 16) | (this.byte() << 8) | this.byte()) >>> 0;
+  }
+
+  variableLength() {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.byte();
+      value = (value << 7) | (byte & 0x7f);
+      if ((byte & 0x80) === 0) return value;
+    }
+    throw new MidiParseError('Invalid variable-length quantity.');
+  }
+
+  text(length: number) {
+    return String.fromCharCode(...this.bytesOf(length));
+  }
+}
+
+const decodeTrack = (reader: ByteReader): MidiEvent[] => {
+  const events: MidiEvent[] = [];
+  let tick = 0;
+  let runningStatus: number | null = null;
+
+  while (!reader.done) {
+    tick += reader.variableLength();
+    let status = reader.byte();
+
+    if (status === 0xff) {
+      const type = reader.byte();
+      const data = reader.bytesOf(reader.variableLength());
+      if (type === 0x51 && data.length === 3) {
+        events.push({ tick, type: 'tempo', microsecondsPerBeat: (data[0] << 16) | (data[1] << 8) | data[2] });
+      } else if (type === 0x2f) {
+        break;
+      } else {
+        events.push({ tick, type: 'other' });
+      }
+      continue;
+    }
+
+    if (status === 0xf0 || status === 0xf7) {
+      // System exclusive messages cancel running status
+      reader.skip(reader.variableLength());
+      runningStatus = null;
+      continue;
+    }
+
+    let firstDataByte: number | null = null;
+    if (status < 0x80) {
+      if (runningStatus === null) {
+        throw new MidiParseError('Data byte found without a preceding status byte.');
+      }
+      firstDataByte = status;
+      status = runningStatus;
+    } else {
+      runningStatus = status;
+    }
+
+    const kind = status & 0xf0;
+    const channel = status & 0x0f;
+    const length = CHANNEL_DATA_LENGTH[kind];
+    if (length === undefined) {
+      throw new MidiParseError(`Unsupported MIDI status byte 0x${status.toString(16)}.`);
+    }
+    const data1 = firstDataByte ?? reader.byte();
+    const data2 = length === 2 ? reader.byte() : 0;
+
+    if (kind === 0x90 && data2 > 0) {
+      events.push({ tick, type: 'noteOn', channel, note: data1, velocity: data2 });
+    } else if (kind === 0x80 || kind === 0x90) {
+      events.push({ tick, type: 'noteOff', channel, note: data1, velocity: data2 });
+    } else {
+      events.push({ tick, type: 'other' });
+    }
+  }
+
+  return events;
+};
+
+export const decodeMidiFile = (bytes: Uint8Array): MidiFile => {
+  const reader = new ByteReader(bytes);
+  if (bytes.length < 14 || reader.text(4) !== 'MThd') {
+    throw new MidiParseError('The file is not a Standard MIDI File.');
+  }
+
+  const headerLength = reader.uint32();
+  const headerEnd = reader.position + headerLength;
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.position = headerEnd;
+
+  if (division & 0x8000) {
+    throw new MidiParseError('SMPTE time division is not supported.');
+  }
+  if (division === 0) {
+    throw new MidiParseError('The MIDI header has no ticks per quarter note.');
+  }
+
+  const tracks: MidiEvent[][] = [];
+  while (!reader.done && tracks.length < trackCount) {
+    const type = reader.text(4);
+    const length = reader.uint32();
+    const start = reader.position;
+    reader.skip(length);
+    // Unknown chunk types must be ignored
+    if (type !== 'MTrk') continue;
+    tracks.push(decodeTrack(new ByteReader(bytes.subarray(start, start + length))));
+  }
+
+  return { format, ppq: division, tracks };
+};
+
+export interface MidiImportResult {
+  notes: NoteEvent[];
+  // MIDI note numbers that fall outside the instrument they were routed to
+  skipped: { instrument: Instrument; note: number }[];
+}
+
+/**
+ * Converts decoded MIDI tracks to recorded notes. Channel 10 is treated as
+ * General MIDI percussion and mapped onto drum pads; every other channel is
+ * played on the piano.
+ */
+export const midiFileToNotes = (midi: MidiFile, pianoRange: { low: number; high: number }): MidiImportResult => {
+  // Tempo changes may live on any track, usually the first
+  const tempoChanges = midi.tracks.flat()
+    .filter((event): event is Extract<MidiEvent, { type: 'tempo' }> => event.type === 'tempo')
+    .sort((a, b) => a.tick - b.tick);
+
+  const ticksToMs = (tick: number) => {
+    let ms = 0;
+    let lastTick = 0;
+    let microsecondsPerBeat = 60_000_000 / DEFAULT_MIDI_BPM;
+    for (const change of tempoChanges) {
+      if (change.tick >= tick) break;
+      ms += ((change.tick - lastTick) * microsecondsPerBeat) / midi.ppq / 1000;
+      lastTick = change.tick;
+      microsecondsPerBeat = change.microsecondsPerBeat;
+    }
+    return ms + ((tick - lastTick) * microsecondsPerBeat) / midi.ppq / 1000;
+  };
+
+  const notes: NoteEvent[] = [];
+  const skipped: MidiImportResult['skipped'] = [];
+
+  const addNote = (channel: number, note: number, velocity: number, startTick: number, endTick: number) => {
+    const timestamp = ticksToMs(startTick);
+    const duration = ticksToMs(endTick) - timestamp;
+
+    if (channel === GM_DRUM_CHANNEL) {
+      const drum = drumSounds.find(d => d.gmNote === note);
+      if (!drum) {
+        skipped.push({ instrument: 'drums', note });
+        return;
+      }
+      notes.push({ instrument: 'drums', note: formatDrumNote(drum), timestamp, duration, velocity: velocity / 127 });
+      return;
+    }
+
+    if (note < pianoRange.low || note > pianoRange.high) {
+      skipped.push({ instrument: 'piano', note });
+      return;
+    }
+    notes.push({ instrument: 'piano', note: midiToNoteName(note), timestamp, duration, velocity: velocity / 127 });
+  };
+
+  midi.tracks.forEach(track => {
+    // Overlapping notes on the same key are paired first-in, first-out
+    const held = new Map<string, { tick: number; velocity: number }[]>();
+    let lastTick = 0;
+
+    track.forEach(event => {
+      lastTick = event.tick;
+      if (event.type !== 'noteOn' && event.type !== 'noteOff') return;
+      const key = `${event.channel}:${event.note}`;
+      if (event.type === 'noteOn') {
+        held.set(key, [...(held.get(key) ?? []), { tick: event.tick, velocity: event.velocity }]);
+        return;
+      }
+      const start = held.get(key)?.shift();
+      if (start) addNote(event.channel, event.note, start.velocity, start.tick, event.tick);
+    });
+
+    // Close anything left sounding at the end of the track
+    held.forEach((starts, key) => {
+      const [channel, note] = key.split(':').map(Number);
+      starts.forEach(start => addNote(channel, note, start.velocity, start.tick, lastTick));
+    });
+  });
+
+  notes.sort((a, b) => a.timestamp - b.timestamp);
+  return { notes, skipped };
+};
@@ -0,0 +1,202 @@
+import * as Tone from 'tone';
+import type { Instrument } from './recording';
+
+export interface ChannelSettings {
+  // dB
+  volume: number;
+  // -1 (left) to 1 (right)
+  pan: number;
+  muted: boolean;
+  solo: boolean;
+}
+
+export interface MasterSettings {
+  // dB
+  volume: number;
+  // Keeps the mix from clipping when instruments pile up
+  limiter: boolean;
+}
+
+export interface MixerSettings {
+  instruments: { [instrument in Instrument]: ChannelSettings };
+  // Keyed by drum name; pads without an entry use the default strip
+  pads: { [name: string]: ChannelSettings };
+  master: MasterSettings;
+}
+
+export interface MixerLevels {
+  // Peak dBFS of what each strip sends on
+  instruments: { [instrument in Instrument]: number };
+  pads: { [name: string]: number };
+  master: number;
+}
+
+export const CHANNEL_VOLUME_RANGE = { min: -48, max: 6 };
+
+// Meters show nothing below this
+export const METER_FLOOR = -60;
+
+// dBFS the limiter holds peaks under
+const LIMITER_THRESHOLD = -1;
+
+export const DEFAULT_CHANNEL_SETTINGS: ChannelSettings = {
+  volume: 0,
+  pan: 0,
+  muted: false,
+  solo: false,
+};
+
+export const DEFAULT_MIXER_SETTINGS: MixerSettings = {
+  instruments: { piano: DEFAULT_CHANNEL_SETTINGS, drums: DEFAULT_CHANNEL_SETTINGS },
+  pads: {},
+  master: { volume: 0, limiter: true },
+};
+
+export const getPadSettings = (settings: MixerSettings, name: string) => {
+  return settings.pads[name] ?? DEFAULT_CHANNEL_SETTINGS;
+};
+
+// Pan position as shown on a strip, e.g. "C" or "40L"
+export const formatPan = (pan: number) => {
+  if (pan === 0) return 'C';
+  return `${Math.round(Math.abs(pan) * 100)}${pan < 0 ? 'L' : 'R'}`;
+};
+
+// Whether a strip can be heard given the mute and solo state of the strips beside it
+export const isChannelAudible = (channel: ChannelSettings, channels: ChannelSettings[]) => {
+  if (channel.muted) return false;
+  return channel.solo || !channels.some(other => other.solo);
+};
+
+const applyChannel = (panVol: Tone.PanVol, settings: ChannelSettings, channels: ChannelSettings[]) => {
+  panVol.volume.value = settings.volume;
+  panVol.pan.value = settings.pan;
+  panVol.mute = !isChannelAudible(settings, channels);
+};
+
+const createPeakAnalyser = () => new Tone.Analyser({ type: 'waveform', size: 256 });
+
+const readPeak = (analyser: Tone.Analyser) => {
+  const values = analyser.getValue() as Float32Array;
+  const peak = values.reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  return Math.max(METER_FLOOR, Tone.gainToDb(peak));
+};
+
+/**
+ * One strip per drum pad for a single set of voices. Every set has its own,
+ * since a track's channel and an instrument's effects come after the pads, but
+ * they all share one meter per pad and follow the mixer's settings.
+ */
+export class PadStrips {
+  private readonly strips = new Map<string, Tone.PanVol>();
+
+  constructor(private readonly mixer: Mixer, private readonly destination: Tone.InputNode) {}
+
+  input(name: string) {
+    let strip = this.strips.get(name);
+    if (!strip) {
+      strip = new Tone.PanVol().connect(this.destination);
+      strip.connect(this.mixer.getPadAnalyser(name));
+      this.strips.set(name, strip);
+      this.apply(this.mixer.settings);
+    }
+    return strip;
+  }
+
+  apply(settings: MixerSettings) {
+    const pads = Object.values(settings.pads);
+    this.strips.forEach((strip, name) => applyChannel(strip, getPadSettings(settings, name), pads));
+  }
+
+  dispose() {
+    this.strips.forEach(strip => strip.dispose());
+    this.strips.clear();
+    this.mixer.releasePadStrips(this);
+  }
+}
+
+/**
+ * Where every instrument ends up: a strip per instrument summing into a
+ * master bus with its own volume and a limiter. There is one mixer per audio
+ * context, so offline renders get their own.
+ */
+export class Mixer {
+  settings = DEFAULT_MIXER_SETTINGS;
+  readonly inputs: { [instrument in Instrument]: Tone.InputNode };
+  private readonly strips: { [instrument in Instrument]: Tone.PanVol };
+  private readonly analysers: { [instrument in Instrument]: Tone.Analyser };
+  private readonly padAnalysers = new Map<string, Tone.Analyser>();
+  private readonly padStrips = new Set<PadStrips>();
+  private readonly bus = new Tone.Gain();
+  private readonly masterVolume = new Tone.Volume();
+  private readonly limiter = new Tone.Limiter(LIMITER_THRESHOLD);
+  private readonly masterAnalyser = createPeakAnalyser();
+
+  constructor(private readonly destination: Tone.InputNode = Tone.getDestination()) {
+    const createStrip = () => new Tone.PanVol().connect(this.bus);
+    this.strips = { piano: createStrip(), drums: createStrip() };
+    this.inputs = this.strips;
+    this.analysers = { piano: createPeakAnalyser(), drums: createPeakAnalyser() };
+    this.strips.piano.connect(this.analysers.piano);
+    this.strips.drums.connect(this.analysers.drums);
+    this.bus.connect(this.masterVolume);
+    this.update(this.settings, true);
+  }
+
+  update(settings: MixerSettings, force = false) {
+    const previous = this.settings;
+    this.settings = settings;
+    const instruments = Object.values(settings.instruments);
+    applyChannel(this.strips.piano, settings.instruments.piano, instruments);
+    applyChannel(this.strips.drums, settings.instruments.drums, instruments);
+    this.masterVolume.volume.value = settings.master.volume;
+    if (force || previous.master.limiter !== settings.master.limiter) {
+      this.masterVolume.disconnect();
+      this.limiter.disconnect();
+      if (settings.master.limiter) this.masterVolume.connect(this.limiter);
+      const output = settings.master.limiter ? this.limiter : this.masterVolume;
+      output.fan(this.destination, this.masterAnalyser);
+    }
+    if (previous.pads !== settings.pads) this.padStrips.forEach(strips => strips.apply(settings));
+  }
+
+  createPadStrips(destination: Tone.InputNode) {
+    const strips = new PadStrips(this, destination);
+    this.padStrips.add(strips);
+    return strips;
+  }
+
+  releasePadStrips(strips: PadStrips) {
+    this.padStrips.delete(strips);
+  }
+
+  getPadAnalyser(name: string) {
+    let analyser = this.padAnalysers.get(name);
+    if (!analyser) {
+      analyser = createPeakAnalyser();
+      this.padAnalysers.set(name, analyser);
+    }
+    return analyser;
+  }
+
+  getLevels(): MixerLevels {
+    return {
+      instruments: { piano: readPeak(this.analysers.piano), drums: readPeak(this.analysers.drums) },
+      pads: Object.fromEntries([...this.padAnalysers].map(([name, analyser]) => [name, readPeak(analyser)])),
+      master: readPeak(this.masterAnalyser),
+    };
+  }
+}
+
+const mixers = new WeakMap<Tone.BaseContext, Mixer>();
+
+// The mixer of the current audio context, made on first use
+export const getMixer = () => {
+  const context = Tone.getContext();
+  let mixer = mixers.get(context);
+  if (!mixer) {
+    mixer = new Mixer();
+    mixers.set(context, mixer);
+  }
+  return mixer;
+};
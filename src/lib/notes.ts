@@ -0,0 +1,22 @@
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const FLATS: { [name: string]: string } = {
+  'Db': 'C#', 'Eb': 'D#', 'Gb': 'F#', 'Ab': 'G#', 'Bb': 'A#',
+};
+
+// Scientific pitch notation, with C4 as MIDI note 60
+export const noteNameToMidi = (note: string): number | undefined => {
+  const match = /^([A-G][#b]?)(-?\d+)$/.exec(note);
+  if (!match) return undefined;
+  const pitchClass = NOTE_NAMES.indexOf(FLATS[match[1]] ?? match[1]);
+  if (pitchClass < 0) return undefined;
+  const midi = (Number(match[2]) + 1) * 12 + pitchClass;
+  return midi >= 0 && midi <= 127 ? midi : undefined;
+};
+
+export const midiToNoteName = (midi: number) => {
+  return `${NOTE_NAMES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+};
+
+// Normalized 0-1 velocity to a MIDI note-on velocity, which must not be 0
+export const toMidiVelocity = (velocity: number) => Math.min(127, Math.max(1, Math.round(velocity * 127)));
@@ -0,0 +1,97 @@
+import * as Tone from 'tone';
+import { deleteEntry, getAllEntries, putEntry } from './idb';
+
+// A user's own sample assigned to a drum pad. PCM is stored rather than an
+// AudioBuffer, which IndexedDB cannot hold.
+export interface PadSample {
+  fileName: string;
+  sampleRate: number;
+  channels: Float32Array[];
+  // dB
+  gain: number;
+  // Semitones
+  pitch: number;
+}
+
+export type PadSampleSettings = Pick<PadSample, 'gain' | 'pitch'>;
+
+// A pad sample ready to play, keyed by drum name in `PadSampleVoices`
+export interface PadSampleVoice extends PadSampleSettings {
+  buffer: Tone.ToneAudioBuffer;
+}
+
+export type PadSampleVoices = { [drumName: string]: PadSampleVoice };
+
+export const PAD_GAIN_RANGE = { min: -24, max: 6 };
+export const PAD_PITCH_RANGE = { min: -24, max: 24 };
+
+export const ACCEPTED_SAMPLE_FILES = 'audio/wav,audio/x-wav,audio/mpeg,.wav,.mp3';
+
+// Longest sample kept, in seconds, so a stray song doesn't fill the browser's storage
+const MAX_SAMPLE_SECONDS = 10;
+
+// Samples quieter than this, about -60 dB, count as silence when trimming
+const SILENCE_THRESHOLD = 0.001;
+
+export class PadSampleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PadSampleError';
+  }
+}
+
+/**
+ * Finds the first and last frame, across all channels, louder than the
+ * silence threshold. Returns an empty range if the whole buffer is silent.
+ */
+export const findSoundRange = (channels: Float32Array[], threshold = SILENCE_THRESHOLD) => {
+  const length = channels[0]?.length ?? 0;
+  const isLoud = (frame: number) => channels.some(channel => Math.abs(channel[frame]) > threshold);
+  let start = 0;
+  while (start < length && !isLoud(start)) start++;
+  let end = length;
+  while (end > start && !isLoud(end - 1)) end--;
+  return { start, end };
+};
+
+export const decodePadSample = async (file: File): Promise<PadSample> => {
+  let buffer: AudioBuffer;
+  try {
+    buffer = await Tone.getContext().decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new PadSampleError(`${file.name} is not a WAV or MP3 file the browser can decode.`);
+  }
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const { start, end } = findSoundRange(channels);
+  if (start >= end) {
+    throw new PadSampleError(`${file.name} is silent.`);
+  }
+
+  const maxFrames = Math.round(MAX_SAMPLE_SECONDS * buffer.sampleRate);
+  return {
+    fileName: file.name,
+    sampleRate: buffer.sampleRate,
+    channels: channels.map(channel => channel.slice(start, Math.min(end, start + maxFrames))),
+    gain: 0,
+    pitch: 0,
+  };
+};
+
+export const toToneBuffer = (sample: PadSample) => {
+  const buffer = new AudioBuffer({
+    length: sample.channels[0].length,
+    numberOfChannels: sample.channels.length,
+    sampleRate: sample.sampleRate,
+  });
+  sample.channels.forEach((channel, i) => buffer.copyToChannel(channel, i));
+  return new Tone.ToneAudioBuffer(buffer);
+};
+
+export const loadPadSamples = async (): Promise<{ [drumName: string]: PadSample }> => {
+  return Object.fromEntries(await getAllEntries<PadSample>('padSamples'));
+};
+
+export const savePadSample = (drumName: string, sample: PadSample) => putEntry('padSamples', drumName, sample);
+
+export const deletePadSample = (drumName: string) => deleteEntry('padSamples', drumName);
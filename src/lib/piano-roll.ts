@@ -0,0 +1,138 @@
+import { drumSounds, formatDrumNote, parseDrumNote, pianoRange } from './instruments';
+import { midiToNoteName, noteNameToMidi } from './notes';
+import type { Instrument, NoteEvent } from './recording';
+import { getWholeNoteMs, type Tempo } from './tempo';
+
+// A pitch row of the piano roll, or a lane for one drum pad
+export interface RollRow {
+  instrument: Instrument;
+  // The note events in this row carry
+  note: string;
+  label: string;
+  isBlack: boolean;
+}
+
+// Grid sizes as fractions of a whole note; 0 turns snapping off
+export const SNAP_DIVISIONS = [0, 4, 8, 16, 32] as const;
+
+export type SnapDivision = typeof SNAP_DIVISIONS[number];
+
+// Shortest note that can be drawn or resized to with snapping off, in ms
+export const MIN_NOTE_MS = 20;
+
+// Rows shown above the highest and below the lowest note of a take
+const ROW_PADDING = 12;
+// Pitch range shown for a take with no piano notes
+const DEFAULT_PITCHES = { low: 48, high: 72 };
+
+const BLACK_PITCH_CLASSES = new Set([1, 3, 6, 8, 10]);
+
+export const getGridMs = (division: SnapDivision, tempo: Tempo) => {
+  return division === 0 ? 0 : getWholeNoteMs(tempo) / division;
+};
+
+export const snapTime = (ms: number, gridMs: number) => {
+  return gridMs > 0 ? Math.round(ms / gridMs) * gridMs : Math.round(ms);
+};
+
+// Snaps to the grid line at or before `ms`, so drawing starts where the pointer is
+export const snapTimeDown = (ms: number, gridMs: number) => {
+  return gridMs > 0 ? Math.floor(ms / gridMs) * gridMs : Math.round(ms);
+};
+
+/**
+ * Piano rows from highest to lowest pitch, spanning the take with an octave
+ * to spare either side, followed by one lane per drum pad. Passing an
+ * `instrument` leaves out the other instrument's rows.
+ */
+export const getRollRows = (notes: NoteEvent[], instrument?: Instrument): RollRow[] => {
+  const pitches = notes
+    .filter(event => event.instrument === 'piano')
+    .map(event => noteNameToMidi(event.note))
+    .filter((midi): midi is number => midi !== undefined);
+  const low = pitches.length > 0 ? Math.min(...pitches) - ROW_PADDING : DEFAULT_PITCHES.low;
+  const high = pitches.length > 0 ? Math.max(...pitches) + ROW_PADDING : DEFAULT_PITCHES.high;
+
+  const rows: RollRow[] = [];
+  if (instrument !== 'drums') {
+    for (let midi = Math.min(high, pianoRange.high); midi >= Math.max(low, pianoRange.low); midi--) {
+      const note = midiToNoteName(midi);
+      rows.push({ instrument: 'piano', note, label: note, isBlack: BLACK_PITCH_CLASSES.has(midi % 12) });
+    }
+  }
+  if (instrument !== 'piano') {
+    drumSounds.forEach(drum => {
+      rows.push({ instrument: 'drums', note: formatDrumNote(drum), label: drum.name, isBlack: false });
+    });
+  }
+  return rows;
+};
+
+// Index of the row `event` is drawn in, or -1 if it falls outside the rows
+export const findRowIndex = (rows: RollRow[], event: NoteEvent) => {
+  if (event.instrument === 'drums') {
+    const drum = parseDrumNote(event.note);
+    return rows.findIndex(row => row.instrument === 'drums' && parseDrumNote(row.note) === drum);
+  }
+  const midi = noteNameToMidi(event.note);
+  return rows.findIndex(row => row.instrument === 'piano' && noteNameToMidi(row.note) === midi);
+};
+
+/**
+ * Shifts the selected notes by `dt` ms and `dRow` rows. Notes never move
+ * before the start of the take, and the row shift is dropped if it would
+ * take any note off its instrument's rows. Notes moved in time are placed
+ * by hand, so they forget any quantized-away timing.
+ */
+export const moveNotes = (
+  notes: NoteEvent[],
+  selection: Set<number>,
+  rows: RollRow[],
+  dt: number,
+  dRow: number,
+) => {
+  const selected = notes.filter((_, i) => selection.has(i));
+  if (selected.length === 0) return notes;
+  const earliest = Math.min(...selected.map(event => event.timestamp));
+  const shift = Math.max(dt, -earliest);
+  const rowShiftFits = selected.every(event => {
+    const row = findRowIndex(rows, event);
+    return row >= 0 && rows[row + dRow]?.instrument === event.instrument;
+  });
+
+  return notes.map((event, i) => {
+    if (!selection.has(i)) return event;
+    const note = rowShiftFits && dRow !== 0 ? rows[findRowIndex(rows, event) + dRow].note : event.note;
+    if (shift === 0) return { ...event, note };
+    const { unquantizedTimestamp: _unquantized, ...placed } = event;
+    return { ...placed, note, timestamp: event.timestamp + shift };
+  });
+};
+
+export const resizeNotes = (
+  notes: NoteEvent[],
+  selection: Set<number>,
+  dDuration: number,
+  minDuration = MIN_NOTE_MS,
+) => notes.map((event, i) => (
+  selection.has(i) ? { ...event, duration: Math.max(minDuration, event.duration + dDuration) } : event
+));
+
+export const deleteNotes = (notes: NoteEvent[], selection: Set<number>) => {
+  return notes.filter((_, i) => !selection.has(i));
+};
+
+// Indices of the notes that overlap the time range and rows, both inclusive
+export const findNotesInRange = (
+  notes: NoteEvent[],
+  rows: RollRow[],
+  range: { start: number; end: number; firstRow: number; lastRow: number },
+) => {
+  const found = new Set<number>();
+  notes.forEach((event, i) => {
+    const row = findRowIndex(rows, event);
+    const overlaps = event.timestamp <= range.end && event.timestamp + event.duration >= range.start;
+    if (overlaps && row >= range.firstRow && row <= range.lastRow) found.add(i);
+  });
+  return found;
+};
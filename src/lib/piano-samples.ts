@@ -0,0 +1,113 @@
+import * as Tone from 'tone';
+import { midiToNoteName } from './notes';
+import type { Voice } from './voice-manager';
+
+export type PianoSound = 'synth' | 'sampled';
+
+// Samples are recorded at a few dynamics; a note plays the softest layer that covers its velocity
+export const PIANO_VELOCITY_LAYERS = [
+  { name: 'soft', maxVelocity: 0.4 },
+  { name: 'medium', maxVelocity: 0.75 },
+  { name: 'hard', maxVelocity: 1 },
+];
+
+// Sampled every minor third from A0 to C8; notes in between are repitched
+export const PIANO_SAMPLE_NOTES = Array.from({ length: 30 }, (_, i) => 21 + i * 3);
+
+const PIANO_SAMPLE_BASE_URL = `${import.meta.env.BASE_URL}samples/piano`;
+
+// Seconds a sampled note takes to fade out once released
+const PIANO_SAMPLE_RELEASE = 1;
+
+// '#' is not safe in a URL, so sharps are spelled with 's', e.g. "Ds1.mp3"
+const getSampleUrl = (layer: string, midi: number) => {
+  return `${PIANO_SAMPLE_BASE_URL}/${layer}/${midiToNoteName(midi).replace('#', 's')}.mp3`;
+};
+
+// Buffers for each velocity layer, keyed by MIDI note
+export type PianoSamples = Map<number, Tone.ToneAudioBuffer>[];
+
+let samplesPromise: Promise<PianoSamples> | null = null;
+
+/**
+ * Loads every velocity layer once; later calls share the same buffers. A
+ * failed load is not cached, so it can be retried.
+ */
+export const loadPianoSamples = () => {
+  if (!samplesPromise) {
+    samplesPromise = Promise.all(PIANO_VELOCITY_LAYERS.map(async layer => {
+      const buffers = await Promise.all(
+        PIANO_SAMPLE_NOTES.map(midi => Tone.ToneAudioBuffer.fromUrl(getSampleUrl(layer.name, midi))),
+      );
+      return new Map(buffers.map((buffer, i) => [PIANO_SAMPLE_NOTES[i], buffer]));
+    })).catch(error => {
+      samplesPromise = null;
+      throw error;
+    });
+  }
+  return samplesPromise;
+};
+
+const getLayerIndex = (velocity: number) => {
+  const index = PIANO_VELOCITY_LAYERS.findIndex(layer => velocity <= layer.maxVelocity);
+  return index < 0 ? PIANO_VELOCITY_LAYERS.length - 1 : index;
+};
+
+const getNearestSampleNote = (midi: number) => {
+  return PIANO_SAMPLE_NOTES.reduce((nearest, note) => (
+    Math.abs(note - midi) < Math.abs(nearest - midi) ? note : nearest
+  ));
+};
+
+/**
+ * Plays one note at a time from the loaded samples, repitching the nearest
+ * sample, so the voice manager can treat it like a synth voice.
+ */
+export class SampleVoice implements Voice {
+  private source: Tone.ToneBufferSource | null = null;
+  private released = true;
+  private destination: Tone.InputNode | null = null;
+
+  constructor(private context: Tone.BaseContext, private samples: PianoSamples) {}
+
+  triggerAttack(note: Tone.Unit.Frequency, time?: Tone.Unit.Time, velocity = 1) {
+    // A stolen voice cuts its previous note; a released one is left to fade
+    if (this.source && !this.released) this.source.stop(time);
+
+    const midi = Tone.Frequency(note).toMidi();
+    const sampleNote = getNearestSampleNote(midi);
+    const source = new Tone.ToneBufferSource({
+      context: this.context,
+      url: this.samples[getLayerIndex(velocity)].get(sampleNote),
+      playbackRate: Tone.intervalToFrequencyRatio(midi - sampleNote),
+      fadeOut: PIANO_SAMPLE_RELEASE,
+      curve: 'exponential',
+    });
+    if (this.destination) source.connect(this.destination);
+    source.onended = () => {
+      if (this.source === source) this.source = null;
+      source.dispose();
+    };
+    source.start(time, 0, undefined, velocity);
+    this.source = source;
+    this.released = false;
+    return this;
+  }
+
+  triggerRelease(time?: Tone.Unit.Time) {
+    if (this.source && !this.released) this.source.stop(time);
+    this.released = true;
+    return this;
+  }
+
+  connect(destination: Tone.InputNode) {
+    this.destination = destination;
+    return this;
+  }
+
+  dispose() {
+    this.source?.dispose();
+    this.source = null;
+    return this;
+  }
+}
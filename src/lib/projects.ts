@@ -0,0 +1,129 @@
+import { DEFAULT_DRUM_KIT, type DrumKitId } from './drum-kits';
+import { DEFAULT_INSTRUMENT_EFFECTS, type InstrumentEffects } from './effects';
+import { deleteEntry, getAllEntries, putEntry } from './idb';
+import { DEFAULT_METRONOME_SETTINGS, type MetronomeSettings } from './metronome';
+import { DEFAULT_MIXER_SETTINGS, type MixerSettings } from './mixer';
+import type { PianoSound } from './piano-samples';
+import { DEFAULT_SYNTH_PATCH, withPatchDefaults, type SynthPatch } from './synth-patch';
+import { DEFAULT_TEMPO, type Tempo } from './tempo';
+import type { Track } from './tracks';
+import { DEFAULT_VOICE_OPTIONS, type VoiceOptions } from './voice-manager';
+
+// How the instruments were set up while working on a project
+export interface ProjectSettings {
+  pianoSound: PianoSound;
+  pianoVoices: VoiceOptions;
+  // The patch being designed, which may differ from the patch the tracks were recorded with
+  synthPatch: SynthPatch;
+  // The kit played live, which may differ from the kit the tracks were recorded with
+  drumKit: DrumKitId;
+  metronome: MetronomeSettings;
+  effects: InstrumentEffects;
+  mixer: MixerSettings;
+}
+
+// What is autosaved as a project is worked on
+export interface ProjectContent {
+  tracks: Track[];
+  // Kit, tempo and synth patch the tracks were recorded with
+  drumKit: DrumKitId;
+  tempo: Tempo;
+  synthPatch: SynthPatch;
+  settings: ProjectSettings;
+}
+
+export interface Project extends ProjectContent {
+  id: string;
+  name: string;
+  // Date.now() times
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface StorageUsage {
+  // Bytes
+  usage: number;
+  quota: number;
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  pianoSound: 'synth',
+  pianoVoices: DEFAULT_VOICE_OPTIONS,
+  synthPatch: DEFAULT_SYNTH_PATCH,
+  drumKit: DEFAULT_DRUM_KIT,
+  metronome: DEFAULT_METRONOME_SETTINGS,
+  effects: DEFAULT_INSTRUMENT_EFFECTS,
+  mixer: DEFAULT_MIXER_SETTINGS,
+};
+
+const DEFAULT_PROJECT_NAME = 'Untitled project';
+
+export const createProject = (name = DEFAULT_PROJECT_NAME, content: Partial<ProjectContent> = {}): Project => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    tracks: [],
+    drumKit: DEFAULT_DRUM_KIT,
+    tempo: DEFAULT_TEMPO,
+    synthPatch: DEFAULT_SYNTH_PATCH,
+    settings: DEFAULT_PROJECT_SETTINGS,
+    ...content,
+  };
+};
+
+export const duplicateProject = (project: Project): Project => {
+  return createProject(`${project.name} copy`, {
+    tracks: project.tracks,
+    drumKit: project.drumKit,
+    tempo: project.tempo,
+    synthPatch: project.synthPatch,
+    settings: project.settings,
+  });
+};
+
+// Whether `content` differs from what was last saved, compared by reference
+// since every edit makes new objects
+export const hasProjectChanged = (project: Project, content: ProjectContent) => {
+  return project.tracks !== content.tracks
+    || project.drumKit !== content.drumKit
+    || project.tempo !== content.tempo
+    || project.synthPatch !== content.synthPatch
+    || (Object.keys(content.settings) as (keyof ProjectSettings)[])
+      .some(key => project.settings[key] !== content.settings[key]);
+};
+
+// Projects saved before a setting existed pick up its default
+const withDefaults = (project: Project): Project => ({
+  ...project,
+  synthPatch: withPatchDefaults(project.synthPatch ?? DEFAULT_SYNTH_PATCH),
+  settings: {
+    ...DEFAULT_PROJECT_SETTINGS,
+    ...project.settings,
+    synthPatch: withPatchDefaults(project.settings?.synthPatch ?? DEFAULT_SYNTH_PATCH),
+  },
+});
+
+// Most recently changed first
+export const loadProjects = async () => {
+  const entries = await getAllEntries<Project>('projects');
+  return entries.map(([, project]) => withDefaults(project)).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveProject = (project: Project) => putEntry('projects', project.id, project);
+
+export const deleteProject = (id: string) => deleteEntry('projects', id);
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_QUANTIZE_OPTIONS,
+  isQuantized,
+  quantizeNotes,
+  QUANTIZE_GRIDS,
+  restoreTiming,
+  type QuantizeOptions,
+} from './quantize';
+import type { NoteEvent } from './recording';
+import { DEFAULT_TEMPO } from './tempo';
+
+const note = (timestamp: number): NoteEvent => ({
+  instrument: 'piano',
+  note: 'C4',
+  timestamp,
+  duration: 100,
+  velocity: 0.8,
+});
+
+const grid = (label: string) => QUANTIZE_GRIDS.find(entry => entry.label === label);
+
+// At 120 BPM in 4/4 a sixteenth is 125 ms and an eighth 250 ms
+const quantize = (timestamps: number[], options: Partial<QuantizeOptions> = {}) => {
+  const notes = quantizeNotes(timestamps.map(note), { ...DEFAULT_QUANTIZE_OPTIONS, ...options }, DEFAULT_TEMPO);
+  return notes.map(event => event.timestamp);
+};
+
+describe('quantizeNotes', () => {
+  it('moves note-ons to the nearest grid line', () => {
+    expect(quantize([0, 130, 310, 499])).toEqual([0, 125, 250, 500]);
+    expect(quantize([130, 310], { grid: grid('1/8') })).toEqual([250, 250]);
+  });
+
+  it('remembers when each note was played and keeps the rest of it', () => {
+    const [event] = quantizeNotes([note(130)], DEFAULT_QUANTIZE_OPTIONS, DEFAULT_TEMPO);
+    expect(event).toEqual({ ...note(130), timestamp: 125, unquantizedTimestamp: 130 });
+  });
+
+  it('moves notes part of the way at lower strengths', () => {
+    expect(quantize([135], { strength: 0.5 })).toEqual([130]);
+    expect(quantize([135], { strength: 0 })).toEqual([135]);
+  });
+
+  it('lays the grid out by the tempo', () => {
+    const notes = quantizeNotes([note(260)], DEFAULT_QUANTIZE_OPTIONS, { ...DEFAULT_TEMPO, bpm: 60 });
+    expect(notes[0].timestamp).toBe(250);
+  });
+
+  it('pushes every other grid line towards the next with swing', () => {
+    // Full swing moves the off-beat eighth two thirds of the way to the next one
+    expect(quantize([400, 500], { grid: grid('1/8'), swing: 1 })).toEqual([417, 500]);
+    expect(quantize([300], { grid: grid('1/8'), swing: 0.5 })).toEqual([333]);
+  });
+
+  it('ignores swing on triplet grids', () => {
+    expect(quantize([170], { grid: grid('1/8 triplet'), swing: 1 })).toEqual([167]);
+  });
+
+  it('starts again from the played timing rather than compounding', () => {
+    const once = quantizeNotes([note(130)], DEFAULT_QUANTIZE_OPTIONS, DEFAULT_TEMPO);
+    const twice = quantizeNotes(once, { ...DEFAULT_QUANTIZE_OPTIONS, grid: grid('1/8') }, DEFAULT_TEMPO);
+    expect(twice[0]).toMatchObject({ timestamp: 250, unquantizedTimestamp: 130 });
+  });
+
+  it('only touches the selected notes', () => {
+    const notes = [note(10), note(130), note(260)];
+    const quantized = quantizeNotes(notes, DEFAULT_QUANTIZE_OPTIONS, DEFAULT_TEMPO, new Set([1]));
+    expect(quantized[0]).toBe(notes[0]);
+    expect(quantized[1]).toMatchObject({ timestamp: 125, unquantizedTimestamp: 130 });
+    expect(quantized[2]).toBe(notes[2]);
+  });
+});
+
+describe('restoreTiming', () => {
+  const quantized = quantizeNotes([note(10), note(130)], DEFAULT_QUANTIZE_OPTIONS, DEFAULT_TEMPO);
+
+  it('puts notes back where they were played', () => {
+    expect(restoreTiming(quantized)).toEqual([note(10), note(130)]);
+  });
+
+  it('only restores the selected notes', () => {
+    const restored = restoreTiming(quantized, new Set([1]));
+    expect(restored[0]).toBe(quantized[0]);
+    expect(restored[1]).toEqual(note(130));
+  });
+
+  it('leaves notes that were never quantized alone', () => {
+    const notes = [note(10)];
+    expect(restoreTiming(notes)[0]).toBe(notes[0]);
+  });
+});
+
+describe('isQuantized', () => {
+  const notes = quantizeNotes([note(10), note(130)], DEFAULT_QUANTIZE_OPTIONS, DEFAULT_TEMPO, new Set([1]));
+
+  it('tells whether any note has been quantized', () => {
+    expect(isQuantized(notes)).toBe(true);
+    expect(isQuantized(restoreTiming(notes))).toBe(false);
+  });
+
+  it('only looks at the selected notes', () => {
+    expect(isQuantized(notes, new Set([0]))).toBe(false);
+    expect(isQuantized(notes, new Set([1]))).toBe(true);
+  });
+});
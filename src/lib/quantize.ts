@@ -0,0 +1,86 @@
+import type { NoteEvent } from './recording';
+import { getWholeNoteMs, type Tempo } from './tempo';
+
+export interface QuantizeGrid {
+  label: string;
+  // Grid lines per whole note
+  division: number;
+  triplet: boolean;
+}
+
+export const QUANTIZE_GRIDS: QuantizeGrid[] = [
+  { label: '1/4', division: 4, triplet: false },
+  { label: '1/4 triplet', division: 6, triplet: true },
+  { label: '1/8', division: 8, triplet: false },
+  { label: '1/8 triplet', division: 12, triplet: true },
+  { label: '1/16', division: 16, triplet: false },
+  { label: '1/16 triplet', division: 24, triplet: true },
+  { label: '1/32', division: 32, triplet: false },
+];
+
+export interface QuantizeOptions {
+  grid: QuantizeGrid;
+  // 0-1, how far each note moves towards its grid line
+  strength: number;
+  // 0-1, how far every other grid line is pushed towards the next; ignored
+  // for triplet grids, which already swing
+  swing: number;
+}
+
+export const DEFAULT_QUANTIZE_OPTIONS: QuantizeOptions = {
+  grid: QUANTIZE_GRIDS[4],
+  strength: 1,
+  swing: 0,
+};
+
+// At full swing an off-beat line moves two thirds of the way to the next,
+// matching the step sequencer
+const MAX_SWING_SHIFT = 2 / 3;
+
+// The grid line nearest `time`, with swing applied to odd lines
+const findGridLine = (time: number, gridMs: number, swingMs: number) => {
+  const lineAt = (index: number) => index * gridMs + (index % 2 === 1 ? swingMs : 0);
+  const nearest = Math.round(time / gridMs);
+  return [nearest - 1, nearest, nearest + 1]
+    .filter(index => index >= 0)
+    .map(lineAt)
+    .reduce((best, line) => (Math.abs(line - time) < Math.abs(best - time) ? line : best));
+};
+
+/**
+ * Moves note-ons towards the grid, laid out by `tempo`. Each note remembers
+ * when it was played, so quantizing again starts from the performance rather
+ * than compounding, and `restoreTiming` can undo it. Only the notes in
+ * `selection` are touched, or every note without one.
+ */
+export const quantizeNotes = (
+  notes: NoteEvent[],
+  { grid, strength, swing }: QuantizeOptions,
+  tempo: Tempo,
+  selection?: Set<number>,
+) => {
+  const gridMs = getWholeNoteMs(tempo) / grid.division;
+  const swingMs = grid.triplet ? 0 : swing * MAX_SWING_SHIFT * gridMs;
+  return notes.map((event, i) => {
+    if (selection && !selection.has(i)) return event;
+    const played = event.unquantizedTimestamp ?? event.timestamp;
+    const line = findGridLine(played, gridMs, swingMs);
+    return {
+      ...event,
+      timestamp: Math.round(played + (line - played) * strength),
+      unquantizedTimestamp: played,
+    };
+  });
+};
+
+export const restoreTiming = (notes: NoteEvent[], selection?: Set<number>) => {
+  return notes.map((event, i) => {
+    if ((selection && !selection.has(i)) || event.unquantizedTimestamp === undefined) return event;
+    const { unquantizedTimestamp, ...rest } = event;
+    return { ...rest, timestamp: unquantizedTimestamp };
+  });
+};
+
+export const isQuantized = (notes: NoteEvent[], selection?: Set<number>) => {
+  return notes.some((event, i) => (!selection || selection.has(i)) && event.unquantizedTimestamp !== undefined);
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DRUM_KIT } from './drum-kits';
+import { DEFAULT_NOTE_DURATION, DEFAULT_VELOCITY, type NoteEvent } from './recording';
+import {
+  createRecordingFile,
+  parseRecordingFile,
+  RECORDING_FILE_VERSION,
+  RecordingParseError,
+} from './recording-file';
+import { DEFAULT_SYNTH_PATCH, FACTORY_PRESETS } from './synth-patch';
+import { DEFAULT_TEMPO } from './tempo';
+import { createTrack } from './tracks';
+
+const onsets = [
+  { instrument: 'drums', note: 'Kick-C2', timestamp: 500 },
+  { instrument: 'piano', note: 'C4', timestamp: 0 },
+];
+
+const events: NoteEvent[] = [
+  { instrument: 'piano', note: 'C4', timestamp: 0, duration: 400, velocity: 0.8 },
+  { instrument: 'drums', note: 'Kick-C2', timestamp: 500, duration: 100, velocity: 0.6 },
+];
+
+const tempo = { bpm: 96, timeSignature: { beats: 3, beatUnit: 4 } };
+
+const tracks = [
+  { ...createTrack('piano', [events[0]]), volume: -6, pan: 0.5 },
+  { ...createTrack('drums', [events[1]]), muted: true },
+];
+
+const parse = (data: object) => parseRecordingFile(JSON.stringify(data));
+
+describe('parseRecordingFile', () => {
+  it('reads files from before versioning with default durations and velocities', () => {
+    const recording = parse({ title: 'Old take', notes: onsets });
+    expect(recording.version).toBe(RECORDING_FILE_VERSION);
+    expect(recording.title).toBe('Old take');
+    expect(recording.tracks.map(track => track.instrument)).toEqual(['piano', 'drums']);
+    expect(recording.tracks[0].notes).toEqual([
+      { instrument: 'piano', note: 'C4', timestamp: 0, duration: DEFAULT_NOTE_DURATION, velocity: DEFAULT_VELOCITY },
+    ]);
+    expect(recording.drumKit).toBe(DEFAULT_DRUM_KIT);
+    expect(recording.tempo).toEqual(DEFAULT_TEMPO);
+    expect(recording.synthPatch).toEqual(DEFAULT_SYNTH_PATCH);
+  });
+
+  it('names untitled files from before versioning', () => {
+    expect(parse({ notes: [] }).title).toBe('Untitled recording');
+  });
+
+  it('reads version 1', () => {
+    const recording = parse({ version: 1, title: 'Take', notes: onsets });
+    expect(recording.tracks.flatMap(track => track.notes).map(event => event.duration))
+      .toEqual([DEFAULT_NOTE_DURATION, DEFAULT_NOTE_DURATION]);
+  });
+
+  it('reads version 2 durations and velocities', () => {
+    const recording = parse({ version: 2, title: 'Take', notes: events });
+    expect(recording.tracks.flatMap(track => track.notes)).toEqual(events);
+    expect(recording.duration).toBe(600);
+  });
+
+  it('reads the version 3 drum kit', () => {
+    expect(parse({ version: 3, title: 'Take', notes: events, drumKit: '808' }).drumKit).toBe('808');
+  });
+
+  it('reads the version 4 played timing of quantized notes', () => {
+    const quantized = [{ ...events[0], unquantizedTimestamp: 12 }, events[1]];
+    const recording = parse({ version: 4, title: 'Take', notes: quantized, drumKit: 'synth' });
+    expect(recording.tracks[0].notes[0].unquantizedTimestamp).toBe(12);
+  });
+
+  it('reads the version 5 tempo', () => {
+    const recording = parse({ version: 5, title: 'Take', notes: events, drumKit: 'synth', tempo });
+    expect(recording.tempo).toEqual(tempo);
+  });
+
+  it('reads version 6 tracks and their mix settings', () => {
+    const recording = parse({ version: 6, title: 'Take', tracks, duration: 600, drumKit: '909', tempo });
+    expect(recording.tracks).toEqual(tracks);
+    expect(recording.drumKit).toBe('909');
+    expect(recording.synthPatch).toEqual(DEFAULT_SYNTH_PATCH);
+  });
+
+  it('reads the version 7 synth patch', () => {
+    const synthPatch = FACTORY_PRESETS[1].patch;
+    const recording = parse({ version: 7, title: 'Take', tracks, duration: 600, drumKit: 'synth', tempo, synthPatch });
+    expect(recording.synthPatch).toEqual(synthPatch);
+  });
+
+  it('sorts notes by time', () => {
+    const recording = parse({ version: 2, title: 'Take', notes: [...events].reverse() });
+    expect(recording.tracks.flatMap(track => track.notes)).toEqual(events);
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(() => parseRecordingFile('{')).toThrow('The file is not valid JSON.');
+  });
+
+  it('rejects JSON that is not a recording', () => {
+    expect(() => parseRecordingFile('[]')).toThrow('The file does not contain a SoundSpace recording.');
+  });
+
+  it('rejects versions it does not know', () => {
+    expect(() => parse({ version: 99, notes: [] })).toThrow('Unsupported recording version: 99.');
+  });
+
+  it('rejects malformed notes', () => {
+    const notes = [{ instrument: 'guitar', note: 'C4', timestamp: -1 }];
+    expect(() => parse({ version: 1, title: 'Take', notes })).toThrow(RecordingParseError);
+    expect(() => parse({ version: 1, title: 'Take', notes })).toThrow(/^Invalid recording: notes\.0\./);
+  });
+});
+
+describe('createRecordingFile', () => {
+  it('round-trips through parseRecordingFile', () => {
+    const synthPatch = FACTORY_PRESETS[2].patch;
+    const file = createRecordingFile(tracks, { title: 'Song', drumKit: 'lofi', tempo, synthPatch });
+    expect(parseRecordingFile(JSON.stringify(file))).toEqual(file);
+  });
+
+  it('falls back to the default kit, tempo and patch', () => {
+    const file = createRecordingFile(tracks);
+    expect(file.drumKit).toBe(DEFAULT_DRUM_KIT);
+    expect(file.tempo).toEqual(DEFAULT_TEMPO);
+    expect(file.synthPatch).toEqual(DEFAULT_SYNTH_PATCH);
+    expect(file.duration).toBe(600);
+  });
+});
@@ -0,0 +1,315 @@
+import { z } from 'zod';
+import { DEFAULT_DRUM_KIT, DRUM_KIT_IDS, type DrumKitId } from './drum-kits';
+import { DEFAULT_NOTE_DURATION, DEFAULT_VELOCITY, type NoteEvent } from './recording';
+import {
+  DEFAULT_SYNTH_PATCH,
+  LFO_TARGET_IDS,
+  SYNTH_WAVEFORMS,
+  withPatchDefaults,
+  type SynthEnvelope,
+  type SynthLfo,
+  type SynthPatch,
+} from './synth-patch';
+import { DEFAULT_TEMPO, type Tempo } from './tempo';
+import { createTakeTracks, getArrangementDuration, type Track } from './tracks';
+
+// Bump when the shape of downloaded recordings changes, and add a parser for
+// the new version below so older files keep loading.
+export const RECORDING_FILE_VERSION = 7;
+
+export interface RecordingFile {
+  version: number;
+  title: string;
+  tracks: Track[];
+  duration: number;
+  drumKit: DrumKitId;
+  tempo: Tempo;
+  synthPatch: SynthPatch;
+}
+
+export class RecordingParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingParseError';
+  }
+}
+
+// Without strictNullChecks zod infers every field as optional, so each schema
+// ends in a transform that builds the type it stands for, field by field
+
+// Versions 0 and 1 only recorded note onsets
+const noteOnsetSchema = z.object({
+  instrument: z.enum(['piano', 'drums']),
+  note: z.string().min(1),
+  timestamp: z.number().finite().nonnegative(),
+}).transform(({ instrument, note, timestamp }): NoteEvent => ({
+  instrument,
+  note,
+  timestamp,
+  duration: DEFAULT_NOTE_DURATION,
+  velocity: DEFAULT_VELOCITY,
+}));
+
+const noteEventFields = {
+  instrument: z.enum(['piano', 'drums']),
+  note: z.string().min(1),
+  timestamp: z.number().finite().nonnegative(),
+  duration: z.number().finite().nonnegative(),
+  velocity: z.number().min(0).max(1),
+};
+
+const noteEventSchema = z.object(noteEventFields).transform(({
+  instrument,
+  note,
+  timestamp,
+  duration,
+  velocity,
+}): NoteEvent => ({ instrument, note, timestamp, duration, velocity }));
+
+// Version 4 keeps the played timing of quantized notes
+const quantizedNoteEventSchema = z.object({
+  ...noteEventFields,
+  unquantizedTimestamp: z.number().finite().nonnegative().optional(),
+}).transform(({
+  instrument,
+  note,
+  timestamp,
+  duration,
+  velocity,
+  unquantizedTimestamp,
+}): NoteEvent => ({
+  instrument,
+  note,
+  timestamp,
+  duration,
+  velocity,
+  ...(unquantizedTimestamp !== undefined && { unquantizedTimestamp }),
+}));
+
+const tempoSchema = z.object({
+  bpm: z.number().finite().positive(),
+  timeSignature: z.object({
+    beats: z.number().int().positive(),
+    beatUnit: z.number().int().positive(),
+  }),
+}).transform(({ bpm, timeSignature: { beats, beatUnit } }): Tempo => ({ bpm, timeSignature: { beats, beatUnit } }));
+
+const trackSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  instrument: z.enum(['piano', 'drums']),
+  notes: z.array(quantizedNoteEventSchema),
+  muted: z.boolean(),
+  solo: z.boolean(),
+  volume: z.number().finite(),
+  pan: z.number().min(-1).max(1),
+}).transform(({ id, name, instrument, notes, muted, solo, volume, pan }): Track => ({
+  id,
+  name,
+  instrument,
+  notes,
+  muted,
+  solo,
+  volume,
+  pan,
+}));
+
+const synthEnvelopeFields = {
+  attack: z.number().finite().nonnegative(),
+  decay: z.number().finite().nonnegative(),
+  sustain: z.number().min(0).max(1),
+  release: z.number().finite().nonnegative(),
+};
+
+const synthEnvelopeSchema = z.object(synthEnvelopeFields).transform(({
+  attack,
+  decay,
+  sustain,
+  release,
+}): SynthEnvelope => ({ attack, decay, sustain, release }));
+
+const synthFilterEnvelopeSchema = z.object({
+  ...synthEnvelopeFields,
+  amount: z.number().finite().nonnegative(),
+}).transform(({ attack, decay, sustain, release, amount }): SynthPatch['filterEnvelope'] => ({
+  attack,
+  decay,
+  sustain,
+  release,
+  amount,
+}));
+
+const synthLfoSchema = z.object({
+  target: z.enum(LFO_TARGET_IDS),
+  rate: z.number().finite().positive(),
+  depth: z.number().min(0).max(1),
+}).transform(({ target, rate, depth }): SynthLfo => ({ target, rate, depth }));
+
+const synthPatchSchema = z.object({
+  waveform: z.enum(SYNTH_WAVEFORMS),
+  detune: z.number().finite(),
+  envelope: synthEnvelopeSchema,
+  cutoff: z.number().finite().positive(),
+  resonance: z.number().finite().nonnegative(),
+  filterEnvelope: synthFilterEnvelopeSchema,
+  lfos: z.array(synthLfoSchema),
+}).transform(({ waveform, detune, envelope, cutoff, resonance, filterEnvelope, lfos }): SynthPatch => ({
+  waveform,
+  detune,
+  envelope,
+  cutoff,
+  resonance,
+  filterEnvelope,
+  lfos,
+}));
+
+// Older versions leave out fields that have a default, and hold a single
+// take rather than tracks
+type ParsedRecording = Pick<RecordingFile, 'title'>
+  & Partial<Pick<RecordingFile, 'drumKit' | 'tempo' | 'synthPatch'>>
+  & ({ notes: NoteEvent[] } | { tracks: Track[] });
+
+// Files written before versioning was introduced carry no `version` field
+const recordingV0Schema = z.object({
+  title: z.string().default('Untitled recording'),
+  notes: z.array(noteOnsetSchema),
+  duration: z.number().optional(),
+});
+
+const recordingV1Schema = recordingV0Schema.extend({
+  version: z.literal(1),
+});
+
+const recordingV2Schema = recordingV0Schema.extend({
+  version: z.literal(2),
+  notes: z.array(noteEventSchema),
+});
+
+// Version 3 records which drum kit played the drums
+const recordingV3Schema = recordingV2Schema.extend({
+  version: z.literal(3),
+  drumKit: z.enum(DRUM_KIT_IDS),
+});
+
+const recordingV4Schema = recordingV3Schema.extend({
+  version: z.literal(4),
+  notes: z.array(quantizedNoteEventSchema),
+});
+
+// Version 5 records the tempo and time signature the take was played to
+const recordingV5Schema = recordingV4Schema.extend({
+  version: z.literal(5),
+  tempo: tempoSchema,
+});
+
+// Version 6 splits the notes into tracks, each with its own mix settings
+const recordingV6Schema = recordingV5Schema.omit({ notes: true }).extend({
+  version: z.literal(6),
+  tracks: z.array(trackSchema),
+});
+
+// Version 7 records the synth patch the piano was played with
+const recordingV7Schema = recordingV6Schema.extend({
+  version: z.literal(7),
+  synthPatch: synthPatchSchema,
+});
+
+// Each version is read into the fields it holds; the rest take their defaults
+const parsers: { [version: number]: z.ZodType<ParsedRecording, z.ZodTypeDef, unknown> } = {
+  0: recordingV0Schema.transform(({ title, notes }): ParsedRecording => ({ title, notes })),
+  1: recordingV1Schema.transform(({ title, notes }): ParsedRecording => ({ title, notes })),
+  2: recordingV2Schema.transform(({ title, notes }): ParsedRecording => ({ title, notes })),
+  3: recordingV3Schema.transform(({ title, notes, drumKit }): ParsedRecording => ({ title, notes, drumKit })),
+  4: recordingV4Schema.transform(({ title, notes, drumKit }): ParsedRecording => ({ title, notes, drumKit })),
+  5: recordingV5Schema.transform(({ title, notes, drumKit, tempo }): ParsedRecording => ({
+    title,
+    notes,
+    drumKit,
+    tempo,
+  })),
+  6: recordingV6Schema.transform(({ title, tracks, drumKit, tempo }): ParsedRecording => ({
+    title,
+    tracks,
+    drumKit,
+    tempo,
+  })),
+  7: recordingV7Schema.transform(({ title, tracks, drumKit, tempo, synthPatch }): ParsedRecording => ({
+    title,
+    tracks,
+    drumKit,
+    tempo,
+    synthPatch,
+  })),
+};
+
+const sortNotes = (notes: NoteEvent[]) => [...notes].sort((a, b) => a.timestamp - b.timestamp);
+
+export interface RecordingFileOptions {
+  title?: string;
+  drumKit?: DrumKitId;
+  tempo?: Tempo;
+  synthPatch?: SynthPatch;
+}
+
+export const createRecordingFile = (
+  tracks: Track[],
+  {
+    title = `SoundSpace Recording - ${new Date().toISOString()}`,
+    drumKit = DEFAULT_DRUM_KIT,
+    tempo = DEFAULT_TEMPO,
+    synthPatch = DEFAULT_SYNTH_PATCH,
+  }: RecordingFileOptions = {},
+): RecordingFile => ({
+  version: RECORDING_FILE_VERSION,
+  title,
+  tracks,
+  duration: getArrangementDuration(tracks),
+  drumKit,
+  tempo,
+  synthPatch,
+});
+
+const formatIssue = (issue: z.ZodIssue) => {
+  const path = issue.path.join('.');
+  return path ? `${path}: ${issue.message}` : issue.message;
+};
+
+export const parseRecordingFile = (text: string): RecordingFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RecordingParseError('The file is not valid JSON.');
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new RecordingParseError('The file does not contain a SoundSpace recording.');
+  }
+
+  const version = 'version' in data ? data.version : 0;
+  const parser = typeof version === 'number' ? parsers[version] : undefined;
+  if (!parser) {
+    throw new RecordingParseError(`Unsupported recording version: ${String(version)}.`);
+  }
+
+  try {
+    const recording = parser.parse(data);
+    const tracks = 'tracks' in recording
+      ? recording.tracks.map(track => ({ ...track, notes: sortNotes(track.notes) }))
+      : createTakeTracks(sortNotes(recording.notes));
+    return {
+      version: RECORDING_FILE_VERSION,
+      title: recording.title,
+      tracks,
+      duration: getArrangementDuration(tracks),
+      drumKit: recording.drumKit ?? DEFAULT_DRUM_KIT,
+      tempo: recording.tempo ?? DEFAULT_TEMPO,
+      synthPatch: withPatchDefaults(recording.synthPatch ?? DEFAULT_SYNTH_PATCH),
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new RecordingParseError(`Invalid recording: ${error.issues.slice(0, 3).map(formatIssue).join('; ')}`);
+    }
+    throw error;
+  }
+};
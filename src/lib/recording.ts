@@ -0,0 +1,25 @@
+export type Instrument = 'piano' | 'drums';
+
+export interface NoteEvent {
+  instrument: Instrument;
+  note: string;
+  // Note-on time in ms from the start of the recording
+  timestamp: number;
+  // How long the note was held, in ms
+  duration: number;
+  // Normalized 0-1
+  velocity: number;
+  // Note-on time as played, kept while `timestamp` is quantized so the
+  // original timing can be restored
+  unquantizedTimestamp?: number;
+}
+
+export const DEFAULT_VELOCITY = 1;
+
+// Length given to notes recorded before durations were captured (an eighth
+// note at 120 BPM, which is what the piano used to play for every key)
+export const DEFAULT_NOTE_DURATION = 250;
+
+export const getRecordingDuration = (notes: NoteEvent[]) => {
+  return notes.reduce((end, event) => Math.max(end, event.timestamp + event.duration), 0);
+};
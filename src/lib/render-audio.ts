@@ -0,0 +1,63 @@
+import * as Tone from 'tone';
+import { getEffectsTail } from './effects';
+import {
+  createInstrumentVoices,
+  playNoteEvent,
+  RELEASE_TAIL,
+  whenInstrumentVoicesReady,
+  type InstrumentOptions,
+  type InstrumentVoices,
+} from './instruments';
+import { getMixer, type MixerSettings } from './mixer';
+import type { NoteEvent } from './recording';
+import { createTrackChannel, getArrangementDuration, isTrackAudible, type Track } from './tracks';
+
+export interface RenderOptions {
+  sampleRate: number;
+  instruments?: InstrumentOptions;
+  mixer?: MixerSettings;
+  // Called with the fraction of the recording scheduled so far, 0-1
+  onProgress?: (progress: number) => void;
+}
+
+// How often, in seconds of rendered audio, progress is reported
+const PROGRESS_INTERVAL = 0.25;
+
+/**
+ * Renders an arrangement through the same instrument voices, track channels
+ * and mixer used for live playback, faster than real time.
+ */
+export const renderArrangement = async (
+  tracks: Track[],
+  { sampleRate, instruments, mixer, onProgress }: RenderOptions,
+) => {
+  const tail = Math.max(RELEASE_TAIL, instruments ? getEffectsTail(instruments.effects) : 0);
+  const duration = getArrangementDuration(tracks) / 1000 + tail;
+
+  const buffer = await Tone.Offline(async ({ transport }) => {
+    // The offline context has a mixer of its own, set up like the live one
+    if (mixer) getMixer().update(mixer);
+    const trackVoices: InstrumentVoices[] = [];
+    tracks.filter(track => isTrackAudible(track, tracks)).forEach(track => {
+      const voices = createInstrumentVoices(instruments, createTrackChannel(track), [track.instrument]);
+      trackVoices.push(voices);
+
+      new Tone.Part((time, event: NoteEvent) => {
+        playNoteEvent(voices, event, time);
+      }, track.notes.map(event => [event.timestamp / 1000, event])).start(0);
+    });
+
+    if (onProgress) {
+      transport.scheduleRepeat(time => {
+        onProgress(Math.min(1, time / duration));
+      }, PROGRESS_INTERVAL);
+    }
+
+    // Reverbs render their impulse responses before they make a sound
+    await Promise.all(trackVoices.map(whenInstrumentVoicesReady));
+    transport.start();
+  }, duration, 2, sampleRate);
+
+  onProgress?.(1);
+  return buffer.get();
+};
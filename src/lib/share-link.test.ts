@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_DRUM_KIT } from './drum-kits';
+import { drumSounds, formatDrumNote } from './instruments';
+import type { NoteEvent } from './recording';
+import {
+  decodeShareLink,
+  decodeSharedRecording,
+  encodeShareLink,
+  encodeSharedRecording,
+  ShareLinkError,
+  type SharedRecording,
+} from './share-link';
+import { DEFAULT_SYNTH_PATCH, FACTORY_PRESETS } from './synth-patch';
+import { DEFAULT_TEMPO } from './tempo';
+
+const notes: NoteEvent[] = [
+  { instrument: 'piano', note: 'C4', timestamp: 0, duration: 480, velocity: 1 },
+  { instrument: 'drums', note: formatDrumNote(drumSounds[2]), timestamp: 250, duration: 0, velocity: 0.5 },
+  { instrument: 'piano', note: 'A#6', timestamp: 70_000, duration: 12_000, velocity: 0.25 },
+];
+
+const recording: SharedRecording = {
+  notes,
+  drumKit: '808',
+  tempo: { bpm: 93.5, timeSignature: { beats: 7, beatUnit: 8 } },
+  synthPatch: { ...FACTORY_PRESETS[1].patch, detune: -12 },
+};
+
+describe('encodeSharedRecording and decodeSharedRecording', () => {
+  it('round-trips notes, the kit, the tempo and the synth patch', () => {
+    const decoded = decodeSharedRecording(encodeSharedRecording(recording));
+    expect(decoded.drumKit).toBe('808');
+    expect(decoded.tempo).toEqual(recording.tempo);
+    expect(decoded.synthPatch).toEqual(recording.synthPatch);
+    expect(decoded.notes.map(({ instrument, note, timestamp, duration }) => ({ instrument, note, timestamp, duration })))
+      .toEqual(notes.map(({ instrument, note, timestamp, duration }) => ({ instrument, note, timestamp, duration })));
+    decoded.notes.forEach((event, i) => expect(event.velocity).toBeCloseTo(notes[i].velocity, 1));
+  });
+
+  it('round-trips every factory preset', () => {
+    FACTORY_PRESETS.forEach(({ patch }) => {
+      const decoded = decodeSharedRecording(encodeSharedRecording({ ...recording, synthPatch: patch }));
+      expect(decoded.synthPatch).toEqual(patch);
+    });
+  });
+
+  it('sorts notes and rounds them to whole milliseconds', () => {
+    const unsorted = [{ ...notes[1], timestamp: 250.4 }, notes[0]];
+    const decoded = decodeSharedRecording(encodeSharedRecording({ ...recording, notes: unsorted }));
+    expect(decoded.notes.map(event => event.timestamp)).toEqual([0, 250]);
+  });
+
+  it('opens version 1 links with the default synth patch', () => {
+    // Version, kit, 120 BPM in hundredths as a varint, 4/4 and no notes
+    const bytes = new Uint8Array([1, 0, 0xe0, 0x5d, 4, 4, 0]);
+    const decoded = decodeSharedRecording(bytes);
+    expect(decoded.drumKit).toBe(DEFAULT_DRUM_KIT);
+    expect(decoded.tempo).toEqual(DEFAULT_TEMPO);
+    expect(decoded.synthPatch).toEqual(DEFAULT_SYNTH_PATCH);
+    expect(decoded.notes).toEqual([]);
+  });
+
+  it('rejects versions it does not know', () => {
+    expect(() => decodeSharedRecording(new Uint8Array([9]))).toThrow('Unsupported share link version: 9.');
+  });
+
+  it('rejects incomplete data', () => {
+    const bytes = encodeSharedRecording(recording);
+    expect(() => decodeSharedRecording(bytes.subarray(0, bytes.length - 2))).toThrow(ShareLinkError);
+  });
+
+  it('rejects unknown drums', () => {
+    const bytes = encodeSharedRecording({ ...recording, notes: [notes[1]] });
+    // The only note ends with its note byte, a one-byte duration and its velocity
+    bytes[bytes.length - 3] = 0x80 | 0x7f;
+    expect(() => decodeSharedRecording(bytes)).toThrow('The share link contains an unknown drum.');
+  });
+});
+
+describe('encodeShareLink and decodeShareLink', () => {
+  it('round-trips through compressed, URL-safe text', async () => {
+    const payload = await encodeShareLink(recording);
+    expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+    const decoded = await decodeShareLink(`#${payload}`);
+    expect(decoded.synthPatch).toEqual(recording.synthPatch);
+    expect(decoded.notes).toHaveLength(notes.length);
+  });
+
+  it('rejects an empty link', async () => {
+    await expect(decodeShareLink('#')).rejects.toThrow('The share link is empty.');
+  });
+
+  it('rejects a damaged link', async () => {
+    await expect(decodeShareLink('#not-compressed-data')).rejects.toThrow(ShareLinkError);
+  });
+});
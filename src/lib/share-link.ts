@@ -0,0 +1,272 @@
+import { DEFAULT_DRUM_KIT, DRUM_KIT_IDS, type DrumKitId } from './drum-kits';
+import { drumSounds, formatDrumNote, parseDrumNote } from './instruments';
+import { midiToNoteName, noteNameToMidi, toMidiVelocity } from './notes';
+import type { NoteEvent } from './recording';
+import {
+  DEFAULT_SYNTH_PATCH,
+  LFO_TARGET_IDS,
+  SYNTH_LFO_COUNT,
+  SYNTH_WAVEFORMS,
+  withPatchDefaults,
+  type SynthEnvelope,
+  type SynthPatch,
+} from './synth-patch';
+import { DEFAULT_TEMPO, type Tempo } from './tempo';
+
+// Bump when the byte layout below changes; links already sent keep the old number
+const SHARE_LINK_VERSION = 2;
+
+// Version 1 links carry no synth patch, so they play the default one
+const PATCHLESS_SHARE_LINK_VERSION = 1;
+
+// Longer links get cut off by some chat apps and browsers
+export const MAX_SHARE_URL_LENGTH = 2000;
+
+// Set on the note byte of drum hits, whose low bits index `drumSounds`
+const DRUM_FLAG = 0x80;
+
+export interface SharedRecording {
+  notes: NoteEvent[];
+  drumKit: DrumKitId;
+  tempo: Tempo;
+  synthPatch: SynthPatch;
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+// Little-endian base-128, so small values such as most note gaps take one byte
+const encodeVarint = (value: number) => {
+  const bytes: number[] = [];
+  let rest = Math.max(0, Math.round(value));
+  while (rest >= 0x80) {
+    bytes.push((rest % 0x80) | 0x80);
+    rest = Math.floor(rest / 0x80);
+  }
+  bytes.push(rest);
+  return bytes;
+};
+
+// Zigzag, so small negative values such as a flat detune also take one byte
+const encodeSignedVarint = (value: number) => {
+  const rounded = Math.round(value);
+  return encodeVarint(rounded < 0 ? -rounded * 2 - 1 : rounded * 2);
+};
+
+class ShareLinkReader {
+  private position = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get done() {
+    return this.position >= this.bytes.length;
+  }
+
+  byte() {
+    if (this.done) throw new ShareLinkError('The share link is incomplete.');
+    return this.bytes[this.position++];
+  }
+
+  varint() {
+    let value = 0;
+    for (let shift = 1; shift < 2 ** 35; shift *= 0x80) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * shift;
+      if ((byte & 0x80) === 0) return value;
+    }
+    throw new ShareLinkError('The share link is damaged.');
+  }
+
+  signedVarint() {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+}
+
+// Envelope times are whole milliseconds and levels hundredths
+const encodeEnvelope = ({ attack, decay, sustain, release }: SynthEnvelope) => [
+  ...encodeVarint(attack * 1000),
+  ...encodeVarint(decay * 1000),
+  Math.round(sustain * 100),
+  ...encodeVarint(release * 1000),
+];
+
+const decodeEnvelope = (reader: ShareLinkReader): SynthEnvelope => ({
+  attack: reader.varint() / 1000,
+  decay: reader.varint() / 1000,
+  sustain: Math.min(1, reader.byte() / 100),
+  release: reader.varint() / 1000,
+});
+
+const encodePatch = (patch: SynthPatch) => [
+  Math.max(0, SYNTH_WAVEFORMS.indexOf(patch.waveform)),
+  ...encodeSignedVarint(patch.detune),
+  ...encodeEnvelope(patch.envelope),
+  ...encodeVarint(patch.cutoff),
+  // Tenths, the resolution of the designer's sliders
+  ...encodeVarint(patch.resonance * 10),
+  ...encodeEnvelope(patch.filterEnvelope),
+  ...encodeVarint(patch.filterEnvelope.amount * 10),
+  patch.lfos.length,
+  ...patch.lfos.flatMap(lfo => [
+    Math.max(0, LFO_TARGET_IDS.indexOf(lfo.target)),
+    ...encodeVarint(lfo.rate * 10),
+    Math.round(lfo.depth * 100),
+  ]),
+];
+
+const decodePatch = (reader: ShareLinkReader): SynthPatch => {
+  const waveform = SYNTH_WAVEFORMS[reader.byte()] ?? DEFAULT_SYNTH_PATCH.waveform;
+  const detune = reader.signedVarint();
+  const envelope = decodeEnvelope(reader);
+  const cutoff = reader.varint();
+  const resonance = reader.varint() / 10;
+  const filterEnvelope = { ...decodeEnvelope(reader), amount: reader.varint() / 10 };
+  const lfoCount = reader.byte();
+  const lfos = Array.from({ length: lfoCount }, () => ({
+    target: LFO_TARGET_IDS[reader.byte()] ?? 'off',
+    rate: reader.varint() / 10,
+    depth: Math.min(1, reader.byte() / 100),
+  })).slice(0, SYNTH_LFO_COUNT);
+  return withPatchDefaults({
+    waveform,
+    detune,
+    envelope,
+    cutoff: cutoff || DEFAULT_SYNTH_PATCH.cutoff,
+    resonance,
+    filterEnvelope,
+    lfos,
+  });
+};
+
+const encodeNote = ({ instrument, note }: NoteEvent) => {
+  if (instrument === 'drums') {
+    const index = drumSounds.indexOf(parseDrumNote(note));
+    return index < 0 ? undefined : DRUM_FLAG | index;
+  }
+  return noteNameToMidi(note);
+};
+
+const decodeNote = (byte: number): Pick<NoteEvent, 'instrument' | 'note'> => {
+  if ((byte & DRUM_FLAG) === 0) return { instrument: 'piano', note: midiToNoteName(byte) };
+  const drum = drumSounds[byte & 0x7f];
+  if (!drum) throw new ShareLinkError('The share link contains an unknown drum.');
+  return { instrument: 'drums', note: formatDrumNote(drum) };
+};
+
+/**
+ * Packs notes into bytes: a header with the kit, tempo and synth patch, then
+ * for each note the gap since the previous one, its pitch or drum, its length
+ * and its velocity. Times are whole milliseconds and quantized notes keep only
+ * their quantized timing.
+ */
+export const encodeSharedRecording = ({ notes, drumKit, tempo, synthPatch }: SharedRecording) => {
+  const encoded = [...notes]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(event => ({ event, note: encodeNote(event) }))
+    .filter(({ note }) => note !== undefined);
+
+  const bytes = [
+    SHARE_LINK_VERSION,
+    Math.max(0, DRUM_KIT_IDS.indexOf(drumKit)),
+    // Hundredths keep fractional tempos from imported MIDI files
+    ...encodeVarint(tempo.bpm * 100),
+    tempo.timeSignature.beats,
+    tempo.timeSignature.beatUnit,
+    ...encodePatch(synthPatch),
+    ...encodeVarint(encoded.length),
+  ];
+  let lastTimestamp = 0;
+  encoded.forEach(({ event, note }) => {
+    const timestamp = Math.round(event.timestamp);
+    bytes.push(
+      ...encodeVarint(timestamp - lastTimestamp),
+      note,
+      ...encodeVarint(event.duration),
+      toMidiVelocity(event.velocity),
+    );
+    lastTimestamp = timestamp;
+  });
+  return new Uint8Array(bytes);
+};
+
+export const decodeSharedRecording = (bytes: Uint8Array): SharedRecording => {
+  const reader = new ShareLinkReader(bytes);
+  const version = reader.byte();
+  if (version !== SHARE_LINK_VERSION && version !== PATCHLESS_SHARE_LINK_VERSION) {
+    throw new ShareLinkError(`Unsupported share link version: ${version}.`);
+  }
+
+  const drumKit = DRUM_KIT_IDS[reader.byte()] ?? DEFAULT_DRUM_KIT;
+  const bpm = reader.varint() / 100;
+  const beats = reader.byte();
+  const beatUnit = reader.byte();
+  const tempo = bpm > 0 && beats > 0 && beatUnit > 0
+    ? { bpm, timeSignature: { beats, beatUnit } }
+    : DEFAULT_TEMPO;
+  const synthPatch = version === PATCHLESS_SHARE_LINK_VERSION ? DEFAULT_SYNTH_PATCH : decodePatch(reader);
+
+  const count = reader.varint();
+  const notes: NoteEvent[] = [];
+  let timestamp = 0;
+  for (let i = 0; i < count; i++) {
+    timestamp += reader.varint();
+    const note = decodeNote(reader.byte());
+    const duration = reader.varint();
+    const velocity = reader.byte() / 127;
+    notes.push({ ...note, timestamp, duration, velocity: Math.min(1, velocity) });
+  }
+  return { notes, drumKit, tempo, synthPatch };
+};
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+export const isShareLinkSupported = () => typeof CompressionStream !== 'undefined';
+
+// The part of a share URL after `#`, which never reaches the server
+export const encodeShareLink = async (recording: SharedRecording) => {
+  if (!isShareLinkSupported()) {
+    throw new ShareLinkError('This browser cannot create share links.');
+  }
+  const compressed = await pipeThrough(encodeSharedRecording(recording), new CompressionStream('deflate-raw'));
+  return toBase64Url(compressed);
+};
+
+export const decodeShareLink = async (hash: string): Promise<SharedRecording> => {
+  if (!isShareLinkSupported()) {
+    throw new ShareLinkError('This browser cannot open share links.');
+  }
+  const payload = hash.replace(/^#/, '');
+  if (!payload) throw new ShareLinkError('The share link is empty.');
+
+  let bytes: Uint8Array;
+  try {
+    bytes = await pipeThrough(fromBase64Url(payload), new DecompressionStream('deflate-raw'));
+  } catch {
+    throw new ShareLinkError('The share link is damaged.');
+  }
+  return decodeSharedRecording(bytes);
+};
+
+export const getShareUrl = (payload: string) => `${window.location.origin}${import.meta.env.BASE_URL}share#${payload}`;
@@ -0,0 +1,74 @@
+import { drumSounds, formatDrumNote } from './instruments';
+import { DEFAULT_VELOCITY, type NoteEvent } from './recording';
+import { DEFAULT_TEMPO } from './tempo';
+
+export const STEP_COUNTS = [16, 32] as const;
+
+export type StepCount = typeof STEP_COUNTS[number];
+
+export const DEFAULT_SEQUENCER_BPM = DEFAULT_TEMPO.bpm;
+
+// Steps are sixteenth notes
+const STEPS_PER_BEAT = 4;
+
+// At full swing an off-beat step lands two thirds of the way to the next
+// step, a triplet feel, the same curve as Tone's Transport swing
+const MAX_SWING_SHIFT = 2 / 3;
+
+// Which steps each pad plays on, keyed by drum name
+export interface StepPattern {
+  length: StepCount;
+  steps: { [drumName: string]: boolean[] };
+}
+
+export const createEmptyPattern = (length: StepCount = STEP_COUNTS[0]): StepPattern => ({
+  length,
+  steps: Object.fromEntries(drumSounds.map(drum => [drum.name, Array(length).fill(false)])),
+});
+
+// Lengthening repeats the pattern so a 16-step groove fills 32 steps
+export const resizePattern = (pattern: StepPattern, length: StepCount): StepPattern => ({
+  length,
+  steps: Object.fromEntries(Object.entries(pattern.steps).map(([name, steps]) => [
+    name,
+    Array.from({ length }, (_, i) => steps[i % steps.length]),
+  ])),
+});
+
+export const toggleStep = (pattern: StepPattern, drumName: string, step: number): StepPattern => ({
+  ...pattern,
+  steps: {
+    ...pattern.steps,
+    [drumName]: pattern.steps[drumName].map((on, i) => (i === step ? !on : on)),
+  },
+});
+
+// Seconds per step at `bpm`
+export const getStepDuration = (bpm: number) => 60 / bpm / STEPS_PER_BEAT;
+
+// Seconds an off-beat step is delayed by; `swing` runs from 0 to 1
+export const getSwingOffset = (step: number, bpm: number, swing: number) => {
+  return step % 2 === 1 ? swing * MAX_SWING_SHIFT * getStepDuration(bpm) : 0;
+};
+
+/**
+ * Spells the pattern out as drum hits, one step apart and swung like the
+ * sequencer plays them, so it can be saved or exported like a recording.
+ */
+export const patternToNotes = (pattern: StepPattern, bpm: number, swing: number, loops = 1): NoteEvent[] => {
+  const stepDuration = getStepDuration(bpm);
+  const notes: NoteEvent[] = [];
+  for (let step = 0; step < pattern.length * loops; step++) {
+    const time = step * stepDuration + getSwingOffset(step, bpm, swing);
+    drumSounds
+      .filter(drum => pattern.steps[drum.name]?.[step % pattern.length])
+      .forEach(drum => notes.push({
+        instrument: 'drums',
+        note: formatDrumNote(drum),
+        timestamp: Math.round(time * 1000),
+        duration: Math.round(stepDuration * 1000),
+        velocity: DEFAULT_VELOCITY,
+      }));
+  }
+  return notes;
+};
@@ -0,0 +1,205 @@
+import * as Tone from 'tone';
+import { deleteEntry, getAllEntries, putEntry } from './idb';
+import type { Voice } from './voice-manager';
+
+export const SYNTH_WAVEFORMS = ['sine', 'triangle', 'sawtooth', 'square'] as const;
+
+export type SynthWaveform = typeof SYNTH_WAVEFORMS[number];
+
+export const LFO_TARGET_IDS = ['off', 'pitch', 'cutoff', 'amplitude'] as const;
+
+export type LfoTarget = typeof LFO_TARGET_IDS[number];
+
+// Seconds, except `sustain` which is a 0-1 level
+export interface SynthEnvelope {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+}
+
+export interface SynthLfo {
+  target: LfoTarget;
+  // Hz
+  rate: number;
+  // 0-1 of the target's full swing
+  depth: number;
+}
+
+export interface SynthPatch {
+  waveform: SynthWaveform;
+  // Cents
+  detune: number;
+  envelope: SynthEnvelope;
+  // Low-pass cutoff in Hz, before the filter envelope opens it further
+  cutoff: number;
+  resonance: number;
+  // `amount` is how many octaves above the cutoff the envelope sweeps
+  filterEnvelope: SynthEnvelope & { amount: number };
+  lfos: SynthLfo[];
+}
+
+export interface SynthPreset {
+  name: string;
+  patch: SynthPatch;
+}
+
+export const LFO_TARGETS: { [target in LfoTarget]: string } = {
+  off: 'Off',
+  pitch: 'Pitch',
+  cutoff: 'Filter cutoff',
+  amplitude: 'Volume',
+};
+
+// Cents, Hz and dB an LFO at full depth swings each target by
+const LFO_PITCH_RANGE = 100;
+const LFO_CUTOFF_SHARE = 0.9;
+const LFO_AMPLITUDE_RANGE = 24;
+
+export const SYNTH_LFO_COUNT = 2;
+
+const OFF_LFO: SynthLfo = { target: 'off', rate: 4, depth: 0.3 };
+
+// The triangle synth the piano has always played
+export const DEFAULT_SYNTH_PATCH: SynthPatch = {
+  waveform: 'triangle',
+  detune: 0,
+  envelope: { attack: 0.02, decay: 0.1, sustain: 0.3, release: 1.2 },
+  cutoff: 20000,
+  resonance: 1,
+  filterEnvelope: { attack: 0.01, decay: 0.2, sustain: 1, release: 1, amount: 0 },
+  lfos: [OFF_LFO, OFF_LFO],
+};
+
+// Ready-made patches; the user's own presets are listed after these
+export const FACTORY_PRESETS: SynthPreset[] = [
+  { name: 'Classic', patch: DEFAULT_SYNTH_PATCH },
+  {
+    name: 'Warm pad',
+    patch: {
+      ...DEFAULT_SYNTH_PATCH,
+      waveform: 'sawtooth',
+      detune: 8,
+      envelope: { attack: 0.6, decay: 0.5, sustain: 0.7, release: 2.5 },
+      cutoff: 900,
+      resonance: 2,
+      filterEnvelope: { attack: 0.8, decay: 1, sustain: 0.5, release: 2, amount: 2 },
+      lfos: [{ target: 'cutoff', rate: 0.3, depth: 0.4 }, OFF_LFO],
+    },
+  },
+  {
+    name: 'Pluck',
+    patch: {
+      ...DEFAULT_SYNTH_PATCH,
+      waveform: 'square',
+      envelope: { attack: 0.005, decay: 0.25, sustain: 0, release: 0.3 },
+      cutoff: 400,
+      resonance: 4,
+      filterEnvelope: { attack: 0.001, decay: 0.15, sustain: 0, release: 0.2, amount: 4 },
+    },
+  },
+  {
+    name: 'Vibrato lead',
+    patch: {
+      ...DEFAULT_SYNTH_PATCH,
+      waveform: 'sawtooth',
+      envelope: { attack: 0.03, decay: 0.2, sustain: 0.8, release: 0.4 },
+      cutoff: 2500,
+      resonance: 3,
+      lfos: [{ target: 'pitch', rate: 5.5, depth: 0.25 }, OFF_LFO],
+    },
+  },
+];
+
+// Patches saved before a setting existed pick up its default
+export const withPatchDefaults = (patch: Partial<SynthPatch>): SynthPatch => ({
+  ...DEFAULT_SYNTH_PATCH,
+  ...patch,
+  lfos: Array.from({ length: SYNTH_LFO_COUNT }, (_, i) => patch.lfos?.[i] ?? OFF_LFO),
+});
+
+/**
+ * One note of the synth piano: a filtered oscillator with amp and filter
+ * envelopes, plus the patch's LFOs. Each voice runs its own LFOs, which start
+ * when it is created.
+ */
+export class SynthVoice implements Voice {
+  private readonly synth: Tone.MonoSynth;
+  private readonly lfos: Tone.LFO[] = [];
+
+  constructor(context: Tone.BaseContext, patch: SynthPatch) {
+    const { envelope, filterEnvelope } = patch;
+    this.synth = new Tone.MonoSynth({
+      context,
+      oscillator: { type: patch.waveform },
+      detune: patch.detune,
+      envelope,
+      filter: { type: 'lowpass', Q: patch.resonance, rolloff: -24 },
+      filterEnvelope: {
+        attack: filterEnvelope.attack,
+        decay: filterEnvelope.decay,
+        sustain: filterEnvelope.sustain,
+        release: filterEnvelope.release,
+        baseFrequency: patch.cutoff,
+        octaves: filterEnvelope.amount,
+      },
+    });
+
+    // A param driven by a signal loses its own value, so the first LFO on a
+    // target is centred on it
+    const centred = new Set<LfoTarget>();
+    patch.lfos.filter(lfo => lfo.target !== 'off' && lfo.depth > 0).forEach(({ target, rate, depth }) => {
+      const isFirst = !centred.has(target);
+      centred.add(target);
+      const lfo = new Tone.LFO({ context, frequency: rate });
+      if (target === 'pitch') {
+        const centre = isFirst ? patch.detune : 0;
+        lfo.set({ min: centre - depth * LFO_PITCH_RANGE, max: centre + depth * LFO_PITCH_RANGE });
+        lfo.connect(this.synth.detune);
+      } else if (target === 'cutoff') {
+        const swing = depth * patch.cutoff * LFO_CUTOFF_SHARE;
+        lfo.set({ min: -swing, max: swing });
+        lfo.connect(this.synth.filter.frequency);
+      } else {
+        lfo.set({ min: -depth * LFO_AMPLITUDE_RANGE, max: 0 });
+        lfo.connect(this.synth.volume);
+      }
+      this.lfos.push(lfo.start());
+    });
+  }
+
+  triggerAttack(note: Tone.Unit.Frequency, time?: Tone.Unit.Time, velocity = 1) {
+    this.synth.triggerAttack(note, time, velocity);
+    return this;
+  }
+
+  triggerRelease(time?: Tone.Unit.Time) {
+    this.synth.triggerRelease(time);
+    return this;
+  }
+
+  connect(destination: Tone.InputNode) {
+    this.synth.connect(destination);
+    return this;
+  }
+
+  dispose() {
+    this.lfos.forEach(lfo => lfo.dispose());
+    this.synth.dispose();
+    return this;
+  }
+}
+
+export const sortSynthPresets = (presets: SynthPreset[]) => {
+  return [...presets].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// The user's presets, keyed by name
+export const loadSynthPresets = async (): Promise<SynthPreset[]> => {
+  const entries = await getAllEntries<SynthPatch>('synthPresets');
+  return sortSynthPresets(entries.map(([name, patch]) => ({ name, patch: withPatchDefaults(patch) })));
+};
+
+export const saveSynthPreset = ({ name, patch }: SynthPreset) => putEntry('synthPresets', name, patch);
+
+export const deleteSynthPreset = (name: string) => deleteEntry('synthPresets', name);
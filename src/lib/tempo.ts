@@ -0,0 +1,52 @@
+export interface TimeSignature {
+  // Beats per bar
+  beats: number;
+  // Note value of one beat, e.g. 4 for quarter notes
+  beatUnit: number;
+}
+
+// BPM counts beats of the time signature's beat unit
+export interface Tempo {
+  bpm: number;
+  timeSignature: TimeSignature;
+}
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { beats: 2, beatUnit: 4 },
+  { beats: 3, beatUnit: 4 },
+  { beats: 4, beatUnit: 4 },
+  { beats: 5, beatUnit: 4 },
+  { beats: 6, beatUnit: 8 },
+  { beats: 7, beatUnit: 8 },
+  { beats: 12, beatUnit: 8 },
+];
+
+export const BPM_RANGE = { min: 40, max: 240 };
+
+// What recordings made before tempos were stored are taken to be in
+export const DEFAULT_TEMPO: Tempo = {
+  bpm: 120,
+  timeSignature: { beats: 4, beatUnit: 4 },
+};
+
+export const formatTimeSignature = ({ beats, beatUnit }: TimeSignature) => `${beats}/${beatUnit}`;
+
+export const getBeatMs = ({ bpm }: Tempo) => 60000 / bpm;
+
+export const getBarMs = (tempo: Tempo) => getBeatMs(tempo) * tempo.timeSignature.beats;
+
+export const getWholeNoteMs = (tempo: Tempo) => getBeatMs(tempo) * tempo.timeSignature.beatUnit;
+
+// 1-based bar and beat a time falls in, with how far into the beat it is (0-1)
+export const toBarsAndBeats = (ms: number, tempo: Tempo) => {
+  const beats = ms / getBeatMs(tempo);
+  const wholeBeats = Math.floor(beats);
+  return {
+    bar: Math.floor(wholeBeats / tempo.timeSignature.beats) + 1,
+    beat: (wholeBeats % tempo.timeSignature.beats) + 1,
+    fraction: beats - wholeBeats,
+  };
+};
+
+// Standard MIDI files count tempo in quarter notes whatever the time signature
+export const getQuarterNoteBpm = ({ bpm, timeSignature }: Tempo) => (bpm * 4) / timeSignature.beatUnit;
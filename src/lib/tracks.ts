@@ -0,0 +1,97 @@
+import * as Tone from 'tone';
+import { getMixer } from './mixer';
+import { getRecordingDuration, type Instrument, type NoteEvent } from './recording';
+
+// One layer of an arrangement, played on a single instrument through its own
+// channel
+export interface Track {
+  id: string;
+  name: string;
+  instrument: Instrument;
+  notes: NoteEvent[];
+  muted: boolean;
+  solo: boolean;
+  // dB
+  volume: number;
+  // -1 (left) to 1 (right)
+  pan: number;
+}
+
+export type TrackSettings = Pick<Track, 'name' | 'muted' | 'solo' | 'volume' | 'pan'>;
+
+export const TRACK_VOLUME_RANGE = { min: -48, max: 6 };
+
+const INSTRUMENT_NAMES: { [instrument in Instrument]: string } = {
+  piano: 'Piano',
+  drums: 'Drums',
+};
+
+export const createTrackId = () => crypto.randomUUID();
+
+export const createTrack = (
+  instrument: Instrument,
+  notes: NoteEvent[],
+  settings: Partial<TrackSettings> = {},
+): Track => ({
+  id: createTrackId(),
+  name: INSTRUMENT_NAMES[instrument],
+  instrument,
+  notes,
+  muted: false,
+  solo: false,
+  volume: 0,
+  pan: 0,
+  ...settings,
+});
+
+/**
+ * Splits a take into one track per instrument played, named after the
+ * instrument and numbered after the tracks already in the arrangement.
+ */
+export const createTakeTracks = (notes: NoteEvent[], existing: Track[] = []): Track[] => {
+  const instruments = (Object.keys(INSTRUMENT_NAMES) as Instrument[])
+    .filter(instrument => notes.some(event => event.instrument === instrument));
+  return instruments.map(instrument => {
+    const count = existing.filter(track => track.instrument === instrument).length;
+    return createTrack(instrument, notes.filter(event => event.instrument === instrument), {
+      name: `${INSTRUMENT_NAMES[instrument]} ${count + 1}`,
+    });
+  });
+};
+
+// Tracks feed the mixer strip of their instrument
+export const createTrackChannel = (track: Track) => new Tone.Channel({
+  volume: track.volume,
+  pan: track.pan,
+  mute: track.muted,
+  solo: track.solo,
+}).connect(getMixer().inputs[track.instrument]);
+
+export const applyTrackSettings = (channel: Tone.Channel, track: Track) => {
+  channel.volume.value = track.volume;
+  channel.pan.value = track.pan;
+  channel.mute = track.muted;
+  channel.solo = track.solo;
+};
+
+// Whether a track can be heard given the mute and solo state of the whole arrangement
+export const isTrackAudible = (track: Track, tracks: Track[]) => {
+  if (track.muted) return false;
+  return track.solo || !tracks.some(other => other.solo);
+};
+
+export const getArrangementDuration = (tracks: Track[]) => {
+  return tracks.reduce((end, track) => Math.max(end, getRecordingDuration(track.notes)), 0);
+};
+
+export const countArrangementNotes = (tracks: Track[]) => {
+  return tracks.reduce((count, track) => count + track.notes.length, 0);
+};
+
+// Every audible note in time order, for exports that take a single list
+export const mixdownNotes = (tracks: Track[]) => {
+  return tracks
+    .filter(track => isTrackAudible(track, tracks))
+    .flatMap(track => track.notes)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
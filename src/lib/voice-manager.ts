@@ -0,0 +1,137 @@
+import * as Tone from 'tone';
+
+// Which held note gives up its voice when every voice is busy; 'none' drops the new note
+export type VoiceStealing = 'oldest' | 'quietest' | 'none';
+
+export interface VoiceOptions {
+  maxVoices: number;
+  stealing: VoiceStealing;
+}
+
+export const MAX_VOICES_OPTIONS = [4, 8, 16, 32];
+
+export const DEFAULT_VOICE_OPTIONS: VoiceOptions = { maxVoices: 16, stealing: 'oldest' };
+
+// A monophonic voice, e.g. a Tone.Synth
+export interface Voice {
+  triggerAttack(note: Tone.Unit.Frequency, time?: Tone.Unit.Time, velocity?: number): unknown;
+  triggerRelease(time?: Tone.Unit.Time): unknown;
+  connect(destination: Tone.InputNode): unknown;
+  dispose(): unknown;
+}
+
+interface VoiceSlot<V extends Voice> {
+  voice: V;
+  // Bumped on every attack so a pending release can tell if the voice was stolen
+  id: number;
+  note: string | null;
+  velocity: number;
+  // Context times the current note started and is released; Infinity while held
+  startedAt: number;
+  releasedAt: number;
+}
+
+/**
+ * Plays chords on monophonic voices. Voices are created on demand up to
+ * `maxVoices`; after that a released voice is reused, and once every voice is
+ * held one is stolen according to `stealing`.
+ */
+export class VoiceManager<V extends Voice = Voice> {
+  readonly output = new Tone.Gain();
+  private slots: VoiceSlot<V>[] = [];
+  private nextId = 0;
+  private options: VoiceOptions;
+
+  // Voices are created while playing, which for offline rendering is after
+  // Tone has switched back to the live context, so they are given the
+  // manager's own context
+  constructor(private createVoice: (context: Tone.BaseContext) => V, options: VoiceOptions = DEFAULT_VOICE_OPTIONS) {
+    this.options = options;
+  }
+
+  configure(options: Partial<VoiceOptions>) {
+    this.options = { ...this.options, ...options };
+    // Shrinking cuts off whatever the dropped voices were playing
+    while (this.slots.length > this.options.maxVoices) {
+      this.slots.pop().voice.dispose();
+    }
+  }
+
+  triggerAttack(note: string, time?: Tone.Unit.Time, velocity = 1) {
+    const seconds = this.output.toSeconds(time);
+    const slot = this.allocate(seconds);
+    if (!slot) return undefined;
+
+    slot.voice.triggerAttack(note, seconds, velocity);
+    Object.assign(slot, {
+      id: this.nextId++,
+      note,
+      velocity,
+      startedAt: seconds,
+      releasedAt: Infinity,
+    });
+    return slot;
+  }
+
+  triggerRelease(note: string, time?: Tone.Unit.Time) {
+    const slot = this.slots.find(s => s.note === note && s.releasedAt === Infinity);
+    // Nothing to do if the note was dropped or its voice stolen
+    if (!slot) return;
+    const seconds = this.output.toSeconds(time);
+    slot.voice.triggerRelease(seconds);
+    slot.releasedAt = seconds;
+  }
+
+  triggerAttackRelease(note: string, duration: Tone.Unit.Time, time?: Tone.Unit.Time, velocity = 1) {
+    const slot = this.triggerAttack(note, time, velocity);
+    if (!slot) return;
+
+    // Release through the context clock rather than on the voice right away,
+    // so the release can be skipped if another note steals the voice first
+    const releaseAt = slot.startedAt + this.output.toSeconds(duration);
+    slot.releasedAt = releaseAt;
+    const { id } = slot;
+    const context = this.output.context;
+    context.setTimeout(() => {
+      if (slot.id === id) slot.voice.triggerRelease(releaseAt);
+    }, Math.max(0, releaseAt - context.currentTime - context.lookAhead));
+  }
+
+  releaseAll(time?: Tone.Unit.Time) {
+    const seconds = this.output.toSeconds(time);
+    this.slots
+      .filter(slot => slot.releasedAt > seconds)
+      .forEach(slot => {
+        slot.voice.triggerRelease(seconds);
+        slot.releasedAt = seconds;
+      });
+  }
+
+  dispose() {
+    this.slots.forEach(slot => slot.voice.dispose());
+    this.slots = [];
+    this.output.dispose();
+  }
+
+  private allocate(time: number): VoiceSlot<V> | undefined {
+    // Let released voices ring out while there is room for new ones
+    if (this.slots.length < this.options.maxVoices) {
+      const voice = this.createVoice(this.output.context);
+      voice.connect(this.output);
+      const slot: VoiceSlot<V> = { voice, id: -1, note: null, velocity: 0, startedAt: -Infinity, releasedAt: -Infinity };
+      this.slots.push(slot);
+      return slot;
+    }
+
+    const released = this.slots
+      .filter(slot => slot.releasedAt <= time)
+      .sort((a, b) => a.releasedAt - b.releasedAt);
+    if (released.length > 0) return released[0];
+
+    if (this.options.stealing === 'none') return undefined;
+    const byPriority = this.options.stealing === 'quietest'
+      ? (a: VoiceSlot<V>, b: VoiceSlot<V>) => a.velocity - b.velocity || a.startedAt - b.startedAt
+      : (a: VoiceSlot<V>, b: VoiceSlot<V>) => a.startedAt - b.startedAt;
+    return [...this.slots].sort(byPriority)[0];
+  }
+}
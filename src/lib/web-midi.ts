@@ -0,0 +1,113 @@
+import { drumSounds, formatDrumNote, pianoRange } from './instruments';
+import { midiToNoteName, toMidiVelocity } from './notes';
+import type { Instrument } from './recording';
+
+export interface MidiNoteMessage {
+  type: 'noteOn' | 'noteOff';
+  // One-based, as shown on hardware and in DAWs
+  channel: number;
+  note: number;
+  velocity: number;
+}
+
+export interface MidiDrumMapping {
+  // Route a whole channel to the drums, or a run of keys on any channel
+  mode: 'channel' | 'range';
+  channel: number;
+  // First key of the range; following keys map to the pads in order
+  rangeStart: number;
+}
+
+export const DEFAULT_DRUM_MAPPING: MidiDrumMapping = {
+  mode: 'channel',
+  channel: 10,
+  rangeStart: 36,
+};
+
+export type InstrumentOutput = 'internal' | 'midi' | 'both';
+
+export interface InstrumentRoute {
+  output: InstrumentOutput;
+  // One-based MIDI channel used when sending to the output port
+  channel: number;
+}
+
+export type InstrumentRouting = { [instrument in Instrument]: InstrumentRoute };
+
+export const DEFAULT_ROUTING: InstrumentRouting = {
+  piano: { output: 'internal', channel: 1 },
+  drums: { output: 'internal', channel: 10 },
+};
+
+export const sendsInternal = (route: InstrumentRoute) => route.output !== 'midi';
+export const sendsMidi = (route: InstrumentRoute) => route.output !== 'internal';
+
+export const isWebMidiSupported = () => typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+
+let accessPromise: Promise<MIDIAccess> | null = null;
+
+// Shared by input and output so the browser only prompts once
+export const requestMidiAccess = () => {
+  if (!accessPromise) {
+    accessPromise = navigator.requestMIDIAccess().catch(error => {
+      accessPromise = null;
+      throw error;
+    });
+  }
+  return accessPromise;
+};
+
+export const parseMidiMessage = (data: Uint8Array): MidiNoteMessage | undefined => {
+  if (data.length < 3) return undefined;
+  const kind = data[0] & 0xf0;
+  const channel = (data[0] & 0x0f) + 1;
+  // A note-on with zero velocity is a note-off
+  if (kind === 0x90 && data[2] > 0) {
+    return { type: 'noteOn', channel, note: data[1], velocity: data[2] };
+  }
+  if (kind === 0x80 || kind === 0x90) {
+    return { type: 'noteOff', channel, note: data[1], velocity: data[2] };
+  }
+  return undefined;
+};
+
+const findDrum = (message: MidiNoteMessage, mapping: MidiDrumMapping) => {
+  if (mapping.mode === 'range') {
+    return drumSounds[message.note - mapping.rangeStart];
+  }
+  return drumSounds.find(d => d.gmNote === message.note);
+};
+
+/**
+ * Decides which instrument and note a controller key plays. Keys mapped to
+ * the drums always hit a pad; anything else goes to the active instrument.
+ */
+export const routeMidiNote = (
+  message: MidiNoteMessage,
+  activeInstrument: Instrument,
+  mapping: MidiDrumMapping,
+): { instrument: Instrument; note: string } | undefined => {
+  const isDrumMessage = mapping.mode === 'channel'
+    ? message.channel === mapping.channel
+    : findDrum(message, mapping) !== undefined;
+
+  if (isDrumMessage || activeInstrument === 'drums') {
+    const drum = findDrum(message, mapping);
+    return drum && { instrument: 'drums', note: formatDrumNote(drum) };
+  }
+
+  if (message.note < pianoRange.low || message.note > pianoRange.high) return undefined;
+  return { instrument: 'piano', note: midiToNoteName(message.note) };
+};
+
+export const sendNoteOn = (output: MIDIOutput, channel: number, note: number, velocity: number, timestamp?: number) => {
+  output.send([0x90 | (channel - 1), note, toMidiVelocity(velocity)], timestamp);
+};
+
+export const sendNoteOff = (output: MIDIOutput, channel: number, note: number, timestamp?: number) => {
+  output.send([0x80 | (channel - 1), note, 0x40], timestamp);
+};
+
+export const sendAllNotesOff = (output: MIDIOutput, channels: number[], timestamp?: number) => {
+  channels.forEach(channel => output.send([0xb0 | (channel - 1), 123, 0], timestamp));
+};
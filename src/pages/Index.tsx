@@ -1,7 +0,0 @@
-import SoundSpace from '@/components/SoundSpace';
-
-const Index = () => {
-  return <SoundSpace />;
-};
-
-export default Index;
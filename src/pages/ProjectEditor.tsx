@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { Link, useOutletContext, useParams } from 'react-router-dom';
+import type { AppShellContext } from '@/components/AppShell';
+
+// The editor itself is drawn by the app shell; this route opens the project in the URL
+const ProjectEditor = () => {
+  const { id } = useParams();
+  const { library } = useOutletContext<AppShellContext>();
+  const { open, isLoaded, current } = library;
+  const exists = library.projects.some(project => project.id === id);
+
+  useEffect(() => {
+    if (id && exists && current?.id !== id) open(id);
+  }, [id, exists, current?.id, open]);
+
+  if (!isLoaded || exists) return null;
+
+  return (
+    <div className="container mx-auto px-4 py-16 text-center">
+      <h1 className="text-2xl font-bold mb-4">Project not found</h1>
+      <p className="text-muted-foreground mb-4">It may have been deleted, or saved in a different browser.</p>
+      <Link to="/projects" className="text-primary underline">
+        Back to your projects
+      </Link>
+    </div>
+  );
+};
+
+export default ProjectEditor;
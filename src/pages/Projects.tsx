@@ -0,0 +1,20 @@
+import { useNavigate, useOutletContext } from 'react-router-dom';
+import type { AppShellContext } from '@/components/AppShell';
+import { ProjectList } from '@/components/ProjectList';
+
+const Projects = () => {
+  const { library } = useOutletContext<AppShellContext>();
+  const navigate = useNavigate();
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <ProjectList
+        library={library}
+        onOpen={id => navigate(`/projects/${id}`)}
+        onCreate={() => navigate(`/projects/${library.create().id}`)}
+      />
+    </div>
+  );
+};
+
+export default Projects;
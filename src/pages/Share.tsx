@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { Link, useLocation, useNavigate, useOutletContext } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import type { AppShellContext, AutoplayState } from '@/components/AppShell';
+import { getRecordingDuration } from '@/lib/recording';
+import { decodeShareLink, type SharedRecording } from '@/lib/share-link';
+import { formatTimeSignature } from '@/lib/tempo';
+import { createTakeTracks } from '@/lib/tracks';
+import { Play } from 'lucide-react';
+
+const Share = () => {
+  const { library } = useOutletContext<AppShellContext>();
+  const { hash } = useLocation();
+  const navigate = useNavigate();
+  const [recording, setRecording] = useState<SharedRecording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRecording(null);
+    setError(null);
+    decodeShareLink(hash)
+      .then(decoded => {
+        if (!cancelled) setRecording(decoded);
+      })
+      .catch(reason => {
+        if (!cancelled) setError(reason instanceof Error ? reason.message : 'The share link could not be opened.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [hash]);
+
+  // Browsers only start audio after a click, so the recording opens from this button
+  const handlePlay = () => {
+    if (!recording) return;
+    const project = library.create('Shared recording', {
+      tracks: createTakeTracks(recording.notes),
+      drumKit: recording.drumKit,
+      tempo: recording.tempo,
+      synthPatch: recording.synthPatch,
+    });
+    const state: AutoplayState = { autoplay: true };
+    navigate(`/projects/${project.id}`, { replace: true, state });
+  };
+
+  const seconds = recording ? Math.round(getRecordingDuration(recording.notes) / 1000) : 0;
+
+  return (
+    <div className="container mx-auto px-4 py-16 max-w-md">
+      <Card className="p-6 bg-card/70 backdrop-blur-sm border-border/50 text-center space-y-4">
+        <h3 className="text-xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
+          Shared recording
+        </h3>
+        {error ? (
+          <>
+            <p className="text-sm text-destructive">{error}</p>
+            <Link to="/projects" className="text-sm text-primary underline">
+              Go to your projects
+            </Link>
+          </>
+        ) : recording ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {recording.notes.length} notes · {seconds}s · {recording.tempo.bpm} BPM ·{' '}
+              {formatTimeSignature(recording.tempo.timeSignature)}
+            </p>
+            <Button
+              onClick={handlePlay}
+              disabled={!library.isLoaded || recording.notes.length === 0}
+              className="gap-2"
+            >
+              <Play className="w-4 h-4" />
+              Play
+            </Button>
+            <p className="text-xs text-muted-foreground">It opens as a new project you can edit and keep.</p>
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground">Opening the recording...</p>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default Share;